@@ -0,0 +1,183 @@
+// Only types are used from vscode, so createAnchor also works outside the editor (e.g. in the CLI)
+import type * as vscode from 'vscode';
+import { Todo, TodoAnchor } from './core';
+
+// Number of neighbouring lines stored on each side of the anchor line
+const CONTEXT_LINES = 2;
+// Minimum score for a candidate line to be accepted when re-locating a TODO
+const RELOCATE_THRESHOLD = 0.6;
+// Score above which the stored line is trusted without searching the document
+const EXACT_MATCH_SCORE = 0.95;
+
+function normalizeLine(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+// Build the content fingerprint for a line and its neighbours
+export function createAnchor(lines: string[], line: number): TodoAnchor {
+  const before: string[] = [];
+  const after: string[] = [];
+
+  for (let i = Math.max(0, line - CONTEXT_LINES); i < line; i++) {
+    before.push(normalizeLine(lines[i]));
+  }
+  for (let i = line + 1; i <= Math.min(lines.length - 1, line + CONTEXT_LINES); i++) {
+    after.push(normalizeLine(lines[i]));
+  }
+
+  return {
+    text: line < lines.length ? normalizeLine(lines[line]) : '',
+    before,
+    after
+  };
+}
+
+export function getDocumentLines(document: vscode.TextDocument): string[] {
+  const lines: string[] = [];
+  for (let i = 0; i < document.lineCount; i++) {
+    lines.push(document.lineAt(i).text);
+  }
+  return lines;
+}
+
+// Dice coefficient over character bigrams, tolerant to small edits on the line
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.substring(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.substring(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length - 2);
+}
+
+function scoreCandidate(lines: string[], candidate: number, anchor: TodoAnchor): number {
+  const lineScore = similarity(normalizeLine(lines[candidate]), anchor.text);
+
+  const contextScores: number[] = [];
+  anchor.before.forEach((text, index) => {
+    const target = candidate - anchor.before.length + index;
+    contextScores.push(target >= 0 ? similarity(normalizeLine(lines[target]), text) : 0);
+  });
+  anchor.after.forEach((text, index) => {
+    const target = candidate + 1 + index;
+    contextScores.push(target < lines.length ? similarity(normalizeLine(lines[target]), text) : 0);
+  });
+
+  if (contextScores.length === 0) return lineScore;
+  const contextScore = contextScores.reduce((sum, score) => sum + score, 0) / contextScores.length;
+  return lineScore * 0.6 + contextScore * 0.4;
+}
+
+// Find the line that best matches the anchor, preferring lines close to the stored one
+export function locateAnchor(lines: string[], anchor: TodoAnchor, hintLine: number): number | undefined {
+  if (lines.length === 0) return undefined;
+
+  if (hintLine < lines.length && scoreCandidate(lines, hintLine, anchor) >= EXACT_MATCH_SCORE) {
+    return hintLine;
+  }
+
+  let bestLine: number | undefined;
+  let bestScore = 0;
+  for (let i = 0; i < lines.length; i++) {
+    const distancePenalty = 0.1 * Math.min(1, Math.abs(i - hintLine) / lines.length);
+    const score = scoreCandidate(lines, i, anchor) - distancePenalty;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLine = i;
+    }
+  }
+
+  return bestScore >= RELOCATE_THRESHOLD ? bestLine : undefined;
+}
+
+// Re-locate TODOs of a document from their fingerprints. Returns true when any TODO changed.
+export function relocateTodos(lines: string[], todos: Todo[]): boolean {
+  let changed = false;
+
+  for (const todo of todos) {
+    if (!todo.anchor) {
+      // Adopt TODOs created before anchoring existed
+      if (todo.line < lines.length) {
+        todo.anchor = createAnchor(lines, todo.line);
+        changed = true;
+      }
+      continue;
+    }
+
+    const newLine = locateAnchor(lines, todo.anchor, todo.line);
+    if (newLine === undefined) {
+      if (!todo.orphaned) {
+        todo.orphaned = true;
+        changed = true;
+      }
+      continue;
+    }
+
+    if (newLine !== todo.line || todo.orphaned) {
+      todo.line = newLine;
+      delete todo.orphaned;
+      todo.anchor = createAnchor(lines, newLine);
+      changed = true;
+    }
+  }
+
+  return changed;
+}
+
+function countNewlines(text: string): number {
+  let count = 0;
+  for (const char of text) {
+    if (char === '\n') count++;
+  }
+  return count;
+}
+
+// Shift a stored line number to follow a single text document change
+export function shiftLine(line: number, change: vscode.TextDocumentContentChangeEvent): number {
+  const { start, end } = change.range;
+  const delta = countNewlines(change.text) - (end.line - start.line);
+
+  if (line < start.line) return line;
+  if (line > end.line) return line + delta;
+  if (line === end.line) {
+    // Text typed in the middle of a single line keeps the TODO on that line
+    if (start.line === end.line && start.character > 0) return line;
+    return line + delta;
+  }
+  // The line itself was deleted, keep the TODO at the start of the change
+  return start.line;
+}
+
+// Apply document changes to the given TODOs. Returns true when any line moved.
+export function shiftTodosForChanges(todos: Todo[], changes: readonly vscode.TextDocumentContentChangeEvent[]): boolean {
+  let changed = false;
+
+  for (const change of changes) {
+    const { start, end } = change.range;
+    if (start.line === end.line && !change.text.includes('\n')) continue;
+
+    for (const todo of todos) {
+      const newLine = shiftLine(todo.line, change);
+      if (newLine !== todo.line) {
+        todo.line = newLine;
+        changed = true;
+      }
+    }
+  }
+
+  return changed;
+}
@@ -0,0 +1,151 @@
+// Headless check of the remote TODOs of a repository, run by `awesome-todo check` as a CI gate
+import * as fs from 'fs';
+import { getTodoStatus, isTodoOverdue, readRemoteTodos, readTeamMembers, toStoredPath, Todo } from './core';
+import { readRoster } from './roster';
+
+export type CheckRule = 'missing-file' | 'line-out-of-range' | 'orphaned' | 'unknown-assignee' | 'too-old' | 'overdue';
+
+export interface CheckOptions {
+  maxAgeDays?: number; // Open TODOs created longer ago fail the check
+  now?: Date;
+}
+
+export interface CheckProblem {
+  rule: CheckRule;
+  message: string;
+}
+
+export interface CheckedTodo {
+  id?: string;
+  file: string; // Workspace-relative, forward slashes
+  line: number; // 1-based
+  message: string;
+  problems: CheckProblem[];
+}
+
+export interface CheckReport {
+  checked: number;
+  failed: number;
+  todos: CheckedTodo[]; // Every checked TODO, with or without problems
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function countLines(filePath: string, cache: Map<string, number | undefined>): number | undefined {
+  if (!cache.has(filePath)) {
+    const exists = fs.existsSync(filePath) && fs.statSync(filePath).isFile();
+    const content = exists ? fs.readFileSync(filePath, 'utf8') : undefined;
+    // A trailing line break ends the last line, it does not start another one
+    cache.set(filePath, content === undefined ? undefined : content.split(/\r?\n/).length - (content.endsWith('\n') ? 1 : 0));
+  }
+  return cache.get(filePath);
+}
+
+function checkTodo(todo: Todo, teamEmails: Set<string> | undefined, lineCounts: Map<string, number | undefined>, options: CheckOptions): CheckProblem[] {
+  const problems: CheckProblem[] = [];
+  const lineCount = countLines(todo.file, lineCounts);
+
+  if (lineCount === undefined) {
+    problems.push({ rule: 'missing-file', message: 'The file no longer exists' });
+  } else if (todo.line >= lineCount) {
+    problems.push({ rule: 'line-out-of-range', message: `Line ${todo.line + 1} is past the end of the file (${lineCount} lines)` });
+  }
+  if (todo.orphaned) {
+    problems.push({ rule: 'orphaned', message: 'The code the TODO was anchored to could not be found' });
+  }
+
+  for (const assignee of todo.assignees || []) {
+    // Hand-edited or merged entries may lack an email, which no team member can match
+    if (typeof assignee?.email !== 'string' || !assignee.email) {
+      problems.push({ rule: 'unknown-assignee', message: `Assignee ${assignee?.name || '(unnamed)'} has no email address` });
+    } else if (teamEmails && !teamEmails.has(assignee.email.toLowerCase())) {
+      problems.push({ rule: 'unknown-assignee', message: `Assignee ${assignee.name} <${assignee.email}> is not in the team` });
+    }
+  }
+
+  // Age and due date only matter while the TODO is not done
+  if (getTodoStatus(todo) !== 'done') {
+    const now = options.now || new Date();
+    const created = todo.createdAt ? Date.parse(todo.createdAt) : NaN;
+    if (options.maxAgeDays !== undefined && !isNaN(created)) {
+      const ageDays = Math.floor((now.getTime() - created) / DAY);
+      if (ageDays > options.maxAgeDays) {
+        problems.push({ rule: 'too-old', message: `Open for ${ageDays} days, more than the allowed ${options.maxAgeDays}` });
+      }
+    }
+    if (isTodoOverdue(todo, now)) {
+      problems.push({ rule: 'overdue', message: `Overdue since ${todo.dueDate}` });
+    }
+  }
+
+  return problems;
+}
+
+export function checkRemoteTodos(root: string, options: CheckOptions = {}): CheckReport {
+  // Every alias in the shared roster is a known assignee; without a roster or team file there is nothing to compare against
+  const roster = readRoster(root);
+  const emails = roster ? roster.flatMap(member => member.emails) : readTeamMembers(root).map(member => member.email);
+  const teamEmails = emails.length > 0 ? new Set(emails.filter(email => typeof email === 'string').map(email => email.toLowerCase())) : undefined;
+  const lineCounts = new Map<string, number | undefined>();
+
+  const todos = readRemoteTodos(root).todos
+    .map(todo => ({
+      ...(todo.id ? { id: todo.id } : {}),
+      file: toStoredPath(root, todo.file),
+      line: todo.line + 1,
+      message: todo.message,
+      problems: checkTodo(todo, teamEmails, lineCounts, options)
+    }))
+    .sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+
+  return { checked: todos.length, failed: todos.filter(todo => todo.problems.length > 0).length, todos };
+}
+
+export function formatCheckText(report: CheckReport): string {
+  const lines = report.todos
+    .filter(todo => todo.problems.length > 0)
+    .flatMap(todo => todo.problems.map(problem => `${todo.file}:${todo.line}: ${problem.rule}: ${problem.message} (${todo.message})`));
+  lines.push(report.failed === 0
+    ? `All ${report.checked} remote TODO(s) passed.`
+    : `${report.failed} of ${report.checked} remote TODO(s) failed the check.`);
+  return lines.join('\n');
+}
+
+export function formatCheckJson(report: CheckReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// One test case per remote TODO, failing with its problems, so CI can annotate the lines
+export function formatCheckJUnit(report: CheckReport): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="awesome-todo" tests="${report.checked}" failures="${report.failed}">`,
+    `  <testsuite name="remote TODOs" tests="${report.checked}" failures="${report.failed}">`
+  ];
+
+  for (const todo of report.todos) {
+    const attributes = `name="${escapeXml(`${todo.file}:${todo.line} ${todo.message}`)}" classname="${escapeXml(todo.file)}" file="${escapeXml(todo.file)}" line="${todo.line}"`;
+    if (todo.problems.length === 0) {
+      lines.push(`    <testcase ${attributes}/>`);
+      continue;
+    }
+
+    const rules = Array.from(new Set(todo.problems.map(problem => problem.rule))).join(', ');
+    const details = todo.problems.map(problem => `${problem.rule}: ${problem.message}`).join('\n');
+    lines.push(`    <testcase ${attributes}>`);
+    lines.push(`      <failure message="${escapeXml(rules)}" type="${escapeXml(todo.problems[0].rule)}">${escapeXml(details)}</failure>`);
+    lines.push('    </testcase>');
+  }
+
+  lines.push('  </testsuite>', '</testsuites>');
+  return lines.join('\n') + '\n';
+}
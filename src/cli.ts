@@ -0,0 +1,375 @@
+#!/usr/bin/env node
+// awesome-todo: list and edit the TODOs of a repository from a terminal or a CI script.
+// Works on the same files as the extension, through the editor-agnostic core.
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { createAnchor } from './anchors';
+import { checkRemoteTodos, formatCheckJson, formatCheckJUnit, formatCheckText } from './check';
+import {
+  filterVisibleRemoteTodos, findTagDefinition, getGitUser, getTodoStatus, parseTodoMetadata, readLocalTodos, readRemoteTodos,
+  readTagDefinitions, readTeamMembers, resolveTodoPriority, setTodoStatus, splitTodoKind, toStoredPath, toStoredTodos, writeLocalTodos,
+  writeRemoteTodos, TagDefinition, Todo, User, WORKSPACE_SETTINGS_FILE
+} from './core';
+import { findRosterMember, getIdentityEmails, isSameIdentity, readRoster, rosterMemberToUser, RosterMember, ROSTER_FILE } from './roster';
+
+const USAGE = `Usage: awesome-todo <command> [options]
+
+Commands:
+  list [--all] [--local | --remote]   Your local TODOs and the remote TODOs you see
+                                      (--all: every remote TODO of the team)
+  mine                                Open remote TODOs assigned to you
+  add <file>:<line> <message> [--assign <member>]...
+                                      Add a remote TODO, e.g. add src/app.ts:42 "FIXME: crash on save [P1]"
+  assign <id> <member>...             Add team members (email, name or GitHub handle) as assignees
+  done <id>                           Mark a TODO as done
+  rm <id>                             Remove a TODO
+  check [--max-age <days>] [--junit <file>]
+                                      Check all remote TODOs for missing files, lines past the end of
+                                      the file, lost anchors, assignees not in the team, overdue or
+                                      too old TODOs. Exits with 1 when any TODO fails.
+
+Options:
+  --root <dir>   Repository root (default: the git repository of the current directory)
+  --json         Print JSON instead of text
+  -h, --help     Show this help
+
+TODOs are addressed by their id, or by an unambiguous start of it, as shown by list.
+Tags are the awesomeTodo.tags setting of .vscode/settings.json, the built-in ones without it.
+Exit codes: 0 success, 1 failed check, 2 usage or other errors.`;
+
+// Wrong input from the user, reported without a stack trace
+class CliError extends Error {}
+
+interface CliOptions {
+  command?: string;
+  args: string[];
+  root?: string;
+  json: boolean;
+  all: boolean;
+  local: boolean;
+  remote: boolean;
+  assign: string[];
+  maxAge?: number;
+  junit?: string;
+  help: boolean;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { args: [], json: false, all: false, local: false, remote: false, assign: [], help: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      if (i + 1 >= argv.length) throw new CliError(`${arg} needs a value`);
+      return argv[++i];
+    };
+
+    if (arg === '--json') options.json = true;
+    else if (arg === '--all') options.all = true;
+    else if (arg === '--local') options.local = true;
+    else if (arg === '--remote') options.remote = true;
+    else if (arg === '--root') options.root = value();
+    else if (arg === '--assign') options.assign.push(value());
+    else if (arg === '--junit') options.junit = value();
+    else if (arg === '--max-age') {
+      const days = Number(value());
+      if (!Number.isInteger(days) || days < 0) throw new CliError('--max-age needs a number of days');
+      options.maxAge = days;
+    }
+    else if (arg === '-h' || arg === '--help') options.help = true;
+    else if (arg.startsWith('--')) throw new CliError(`Unknown option ${arg}`);
+    else if (!options.command) options.command = arg;
+    else options.args.push(arg);
+  }
+  return options;
+}
+
+// The git repository around the working directory, or the directory itself
+function findRoot(directory: string): string {
+  try {
+    return execFileSync('git', ['rev-parse', '--show-toplevel'], { cwd: directory, encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+  } catch (error) {
+    return directory;
+  }
+}
+
+class Repository {
+  readonly user: User | null;
+  readonly local: Todo[];
+  readonly remote: Todo[];
+  readonly roster: RosterMember[] | undefined;
+  readonly tags: TagDefinition[];
+
+  constructor(readonly root: string) {
+    this.user = getGitUser(root);
+    this.roster = readRoster(root);
+    try {
+      this.tags = readTagDefinitions(root);
+    } catch (error) {
+      throw new CliError(`Failed to read the tags from ${WORKSPACE_SETTINGS_FILE}: ${error}`);
+    }
+    this.local = readLocalTodos(root).todos;
+    this.remote = readRemoteTodos(root).todos;
+  }
+
+  requireUser(): User {
+    if (!this.user) {
+      throw new CliError('Git user information not available. Please configure git user.name and user.email first.');
+    }
+    return this.user;
+  }
+
+  // Local TODOs and the remote TODOs the user sees, or every remote TODO with all
+  getTodos(all: boolean): Todo[] {
+    return [...this.local, ...(all ? this.remote : filterVisibleRemoteTodos(this.remote, this.requireUser().email, this.roster))];
+  }
+
+  findTodo(id: string, all: boolean): Todo {
+    const todos = this.getTodos(all);
+    const exact = todos.find(todo => todo.id === id);
+    if (exact) return exact;
+
+    const matches = todos.filter(todo => todo.id?.startsWith(id));
+    if (matches.length === 1) return matches[0];
+    if (matches.length === 0) {
+      throw new CliError(`No TODO with id "${id}"${all ? '' : ' (use --all to include remote TODOs not assigned to you)'}`);
+    }
+    throw new CliError(`"${id}" matches ${matches.length} TODOs: ${matches.map(todo => todo.id).join(', ')}`);
+  }
+
+  // Write back the TODOs of the type of the changed todo
+  save(type: Todo['type']): void {
+    if (type === 'remote') {
+      writeRemoteTodos(this.root, this.remote);
+    } else {
+      writeLocalTodos(this.root, this.local);
+    }
+  }
+
+  relativePath(filePath: string): string {
+    return toStoredPath(this.root, filePath);
+  }
+}
+
+function sortByLocation(todos: Todo[]): Todo[] {
+  return [...todos].sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+}
+
+function formatTodo(repository: Repository, todo: Todo): string {
+  const tag = findTagDefinition(repository.tags, todo.kind);
+  const assignees = todo.type === 'remote' && todo.assignees?.length ? `  (${todo.assignees.map(assignee => assignee.name).join(', ')})` : '';
+  const due = todo.dueDate ? `  due ${todo.dueDate}` : '';
+  return [
+    getTodoStatus(todo).padEnd(11),
+    resolveTodoPriority(todo, repository.tags),
+    todo.type.padEnd(6),
+    `${repository.relativePath(todo.file)}:${todo.line + 1}`,
+    `${tag.tag}: ${todo.message}${due}${assignees}`,
+    `[${todo.id || '-'}]`
+  ].join('  ');
+}
+
+function printTodos(repository: Repository, todos: Todo[], json: boolean): void {
+  if (json) {
+    console.log(JSON.stringify(toStoredTodos(repository.root, todos), null, 2));
+  } else if (todos.length === 0) {
+    console.log('No TODOs found.');
+  } else {
+    todos.forEach(todo => console.log(formatTodo(repository, todo)));
+  }
+}
+
+// Team member by email, GitHub handle or name from the shared roster, or by email or name from .awesometeam.json
+function findMember(repository: Repository, name: string): User {
+  if (repository.roster) {
+    const member = findRosterMember(repository.roster, name);
+    if (!member) {
+      throw new CliError(`"${name}" is not a team member. Add them to ${ROSTER_FILE} first.`);
+    }
+    return rosterMemberToUser(member);
+  }
+
+  const team = readTeamMembers(repository.root);
+  const key = name.toLowerCase();
+  const member = team.find(user => user.email.toLowerCase() === key) || team.find(user => user.name.toLowerCase() === key);
+  if (!member) {
+    throw new CliError(`"${name}" is not a team member. Add them to .awesometeam.json first.`);
+  }
+  return member;
+}
+
+function list(repository: Repository, options: CliOptions): void {
+  let todos = repository.getTodos(options.all);
+  if (options.local !== options.remote) {
+    todos = todos.filter(todo => todo.type === (options.local ? 'local' : 'remote'));
+  }
+  printTodos(repository, sortByLocation(todos), options.json);
+}
+
+function mine(repository: Repository, options: CliOptions): void {
+  const emails = getIdentityEmails(repository.roster || [], repository.requireUser().email);
+  const todos = repository.remote.filter(todo =>
+    getTodoStatus(todo) !== 'done' && todo.assignees?.some(assignee => emails.includes(assignee.email.toLowerCase()))
+  );
+  const byPriority = (todo: Todo) => resolveTodoPriority(todo, repository.tags);
+  printTodos(repository, sortByLocation(todos).sort((a, b) => byPriority(a).localeCompare(byPriority(b))), options.json);
+}
+
+function add(repository: Repository, options: CliOptions): void {
+  const [location, ...words] = options.args;
+  const match = location?.match(/^(.+):(\d+)$/);
+  if (!match || words.length === 0) {
+    throw new CliError('Usage: awesome-todo add <file>:<line> <message>');
+  }
+
+  const user = repository.requireUser();
+  const file = path.resolve(match[1]);
+  if (!fs.existsSync(file) || !fs.statSync(file).isFile()) {
+    throw new CliError(`File not found: ${match[1]}`);
+  }
+  if (repository.relativePath(file) === file) {
+    throw new CliError(`${match[1]} is outside of ${repository.root}`);
+  }
+
+  const lines = fs.readFileSync(file, 'utf8').split(/\r?\n/);
+  const line = parseInt(match[2]) - 1;
+  if (line < 0 || line >= lines.length) {
+    throw new CliError(`Line ${match[2]} is outside of ${match[1]} (1-${lines.length})`);
+  }
+
+  const { kind, text } = splitTodoKind(words.join(' '), repository.tags.map(tag => tag.tag));
+  const metadata = parseTodoMetadata(text);
+  if (!metadata.message) {
+    throw new CliError('The TODO message is empty');
+  }
+
+  const tag = findTagDefinition(repository.tags, kind);
+  if (!tag.assignable && options.assign.length > 0) {
+    throw new CliError(`${tag.tag} items can not be assigned.`);
+  }
+  const assignees = options.assign.length > 0
+    ? options.assign.map(name => findMember(repository, name))
+    : tag.assignable ? [user] : []; // Like in the editor, the author is the first assignee
+
+  const now = new Date().toISOString();
+  const todo: Todo = {
+    file,
+    line,
+    type: 'remote',
+    kind,
+    ...metadata,
+    id: `remote-${repository.relativePath(file)}:${line}:${Date.now()}`,
+    anchor: createAnchor(lines, line),
+    author: user,
+    assignees: assignees.filter((assignee, index) => assignees.findIndex(other => other.email === assignee.email) === index),
+    createdAt: now,
+    updatedAt: now
+  };
+
+  repository.remote.push(todo);
+  repository.save('remote');
+  printResult(repository, options, todo, `Added remote TODO [${todo.id}]`);
+}
+
+function assign(repository: Repository, options: CliOptions): void {
+  const [id, ...names] = options.args;
+  if (!id || names.length === 0) {
+    throw new CliError('Usage: awesome-todo assign <id> <member>...');
+  }
+
+  const todo = repository.findTodo(id, options.all);
+  if (todo.type !== 'remote') {
+    throw new CliError('Only remote TODOs can be assigned.');
+  }
+  const tag = findTagDefinition(repository.tags, todo.kind);
+  if (!tag.assignable) {
+    throw new CliError(`${tag.tag} items can not be assigned.`);
+  }
+
+  const roster = repository.roster || [];
+  const added = names.map(name => findMember(repository, name))
+    .filter(member => !todo.assignees?.some(assignee => isSameIdentity(roster, assignee.email, member.email)));
+  if (added.length > 0) {
+    todo.assignees = [...(todo.assignees || []), ...added.filter((member, index) => added.findIndex(other => other.email === member.email) === index)];
+    todo.updatedAt = new Date().toISOString();
+    repository.save('remote');
+  }
+  printResult(repository, options, todo, `Assignees of [${todo.id}]: ${(todo.assignees || []).map(assignee => assignee.name).join(', ')}`);
+}
+
+function done(repository: Repository, options: CliOptions): void {
+  const [id] = options.args;
+  if (!id) {
+    throw new CliError('Usage: awesome-todo done <id>');
+  }
+
+  const todo = repository.findTodo(id, options.all);
+  if (!setTodoStatus(todo, 'done', repository.user)) {
+    throw new CliError(`[${todo.id}] is already done.`);
+  }
+  repository.save(todo.type);
+  printResult(repository, options, todo, `Marked [${todo.id}] as done`);
+}
+
+function remove(repository: Repository, options: CliOptions): void {
+  const [id] = options.args;
+  if (!id) {
+    throw new CliError('Usage: awesome-todo rm <id>');
+  }
+
+  const todo = repository.findTodo(id, options.all);
+  const todos = todo.type === 'remote' ? repository.remote : repository.local;
+  todos.splice(todos.indexOf(todo), 1);
+  repository.save(todo.type);
+  printResult(repository, options, todo, `Removed [${todo.id}] ${todo.message}`);
+}
+
+// Returns the exit code, so CI fails when any TODO has a problem
+function check(repository: Repository, options: CliOptions): number {
+  const report = checkRemoteTodos(repository.root, { maxAgeDays: options.maxAge });
+  if (options.junit) {
+    fs.writeFileSync(path.resolve(options.junit), formatCheckJUnit(report));
+  }
+  console.log(options.json ? formatCheckJson(report) : formatCheckText(report));
+  return report.failed > 0 ? 1 : 0;
+}
+
+function printResult(repository: Repository, options: CliOptions, todo: Todo, message: string): void {
+  console.log(options.json ? JSON.stringify(toStoredTodos(repository.root, [todo])[0], null, 2) : message);
+}
+
+// Commands return an exit code when it is not simply 0
+const COMMANDS: Record<string, (repository: Repository, options: CliOptions) => number | void> = {
+  list,
+  mine,
+  add,
+  assign,
+  done,
+  rm: remove,
+  check
+};
+
+export function main(argv: string[]): number {
+  try {
+    const options = parseArgs(argv);
+    if (options.help || !options.command) {
+      console.log(USAGE);
+      return options.command || options.help ? 0 : 2;
+    }
+
+    const command = COMMANDS[options.command];
+    if (!command) {
+      throw new CliError(`Unknown command "${options.command}"\n\n${USAGE}`);
+    }
+
+    const root = path.resolve(options.root || findRoot(process.cwd()));
+    return command(new Repository(root), options) || 0;
+  } catch (error) {
+    console.error(error instanceof CliError ? error.message : `awesome-todo failed: ${error}`);
+    return 2;
+  }
+}
+
+if (require.main === module) {
+  process.exit(main(process.argv.slice(2)));
+}
@@ -0,0 +1,340 @@
+import * as vscode from 'vscode';
+import { DEFAULT_KIND, getTagNames } from './tags';
+
+export interface CommentSyntax {
+  line?: string[]; // Line comment prefixes, e.g. ["//"]
+  block?: [string, string][]; // Block comment delimiters, e.g. [["/*", "*/"]]
+  strings?: string[]; // Quotes of string literals, comment delimiters inside them are ignored
+}
+
+// A TODO comment found on a single line
+export interface TodoComment {
+  tag: string; // Upper-case tag that introduced the comment, e.g. "TODO"
+  message: string;
+  column: number; // Where the comment starts on the line
+  removeStart: number; // Range to delete when the TODO is converted
+  removeEnd: number;
+}
+
+const C_STYLE: CommentSyntax = { line: ['//'], block: [['/*', '*/']] };
+const HASH_STYLE: CommentSyntax = { line: ['#'] };
+// Prose languages have no string literals, an apostrophe would hide the comments after it
+const MARKUP_STYLE: CommentSyntax = { block: [['<!--', '-->']], strings: [] };
+const TEX_STYLE: CommentSyntax = { line: ['%'], strings: [] };
+
+// Used for languages without an entry, matches the historical "//" and "#" detection
+const DEFAULT_SYNTAX: CommentSyntax = { line: ['//', '#'], block: [['/*', '*/']] };
+
+const DEFAULT_STRINGS = ['"', "'", '`'];
+
+const BUILTIN_SYNTAX: Record<string, CommentSyntax> = {
+  'javascript': C_STYLE,
+  'javascriptreact': C_STYLE,
+  'typescript': C_STYLE,
+  'typescriptreact': C_STYLE,
+  'java': C_STYLE,
+  'c': C_STYLE,
+  'cpp': C_STYLE,
+  'csharp': C_STYLE,
+  'go': C_STYLE,
+  'rust': C_STYLE,
+  'swift': C_STYLE,
+  'kotlin': C_STYLE,
+  'scala': C_STYLE,
+  'dart': C_STYLE,
+  'groovy': C_STYLE,
+  'jsonc': C_STYLE,
+  'scss': C_STYLE,
+  'less': C_STYLE,
+  'css': { block: [['/*', '*/']] },
+  'php': { line: ['//', '#'], block: [['/*', '*/']] },
+  'python': { line: ['#'], block: [['"""', '"""'], ["'''", "'''"]] },
+  'ruby': { line: ['#'], block: [['=begin', '=end']] },
+  'perl': HASH_STYLE,
+  'shellscript': HASH_STYLE,
+  'yaml': HASH_STYLE,
+  'toml': HASH_STYLE,
+  'dockerfile': HASH_STYLE,
+  'makefile': HASH_STYLE,
+  'r': HASH_STYLE,
+  'elixir': HASH_STYLE,
+  'coffeescript': { line: ['#'], block: [['###', '###']] },
+  'powershell': { line: ['#'], block: [['<#', '#>']] },
+  'html': MARKUP_STYLE,
+  'xml': MARKUP_STYLE,
+  'markdown': MARKUP_STYLE,
+  'vue': { line: ['//'], block: [['<!--', '-->'], ['/*', '*/']] },
+  'svelte': { line: ['//'], block: [['<!--', '-->'], ['/*', '*/']] },
+  'sql': { line: ['--'], block: [['/*', '*/']] },
+  'lua': { line: ['--'], block: [['--[[', ']]']] },
+  'haskell': { line: ['--'], block: [['{-', '-}']] },
+  'elm': { line: ['--'], block: [['{-', '-}']] },
+  'ini': { line: [';', '#'] },
+  'properties': { line: ['#', '!'] },
+  'clojure': { line: [';'] },
+  'lisp': { line: [';'] },
+  'scheme': { line: [';'] },
+  'asm': { line: [';'] },
+  'latex': TEX_STYLE,
+  'tex': TEX_STYLE,
+  'matlab': { line: ['%'], block: [['%{', '%}']] },
+  'erlang': { line: ['%'] },
+  'prolog': { line: ['%'], block: [['/*', '*/']] },
+  'vb': { line: ["'"] },
+  'bat': { line: ['REM', '::'] }
+};
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string' && item.length > 0);
+}
+
+function isBlockArray(value: unknown): value is [string, string][] {
+  return Array.isArray(value) && value.every(pair => isStringArray(pair) && pair.length === 2);
+}
+
+// Built-in syntax for the language, overridden by the "awesomeTodo.commentSyntax" setting
+export function getCommentSyntax(languageId: string): CommentSyntax {
+  const builtin = BUILTIN_SYNTAX[languageId] || DEFAULT_SYNTAX;
+  const userSyntax = vscode.workspace
+    .getConfiguration('awesomeTodo')
+    .get<Record<string, CommentSyntax>>('commentSyntax', {})[languageId];
+
+  if (!userSyntax) {
+    return builtin;
+  }
+
+  return {
+    line: isStringArray(userSyntax.line) ? userSyntax.line : builtin.line,
+    block: isBlockArray(userSyntax.block) ? userSyntax.block : builtin.block,
+    strings: builtin.strings
+  };
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Line-by-line scanner that remembers whether it is inside a block comment
+export class CommentScanner {
+  private openBlock: [string, string] | undefined;
+  private readonly syntax: CommentSyntax;
+  private readonly tagPattern: string;
+  private readonly tagPrefix: RegExp;
+
+  constructor(languageId: string, tags: string[] = getTagNames()) {
+    this.syntax = getCommentSyntax(languageId);
+    // The lookahead captures a ":" or "(" after the tag, see isTag
+    this.tagPattern = `(${tags.map(escapeRegExp).join('|')})\\b(?=(\\s*[:(])?)`;
+    this.tagPrefix = new RegExp(`^(\\s*\\*?\\s*)${this.tagPattern}\\s*[:\\-]?\\s*`, 'i');
+  }
+
+  // Tags count when written in upper case, in any other case only as "todo:" or "todo(", so that
+  // prose such as "note that" or "bug reports" stays an ordinary comment
+  private isTag(word: string, separator: string | undefined): boolean {
+    return word === word.toUpperCase() || separator !== undefined;
+  }
+
+  private matchTag(body: string): RegExpMatchArray | undefined {
+    const todo = body.match(this.tagPrefix);
+    return todo && this.isTag(todo[2], todo[3]) ? todo : undefined;
+  }
+
+  // Index in text, from from on, of the next TODO comment starting with the line comment prefix
+  private findLaterTodo(text: string, prefix: string, from: number): number | undefined {
+    const pattern = new RegExp(`${escapeRegExp(prefix)}\\s*${this.tagPattern}`, 'gi');
+    pattern.lastIndex = from;
+    for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+      if (this.isTag(match[1], match[2])) {
+        return match.index;
+      }
+    }
+    return undefined;
+  }
+
+  scanLine(text: string): TodoComment[] {
+    const comments: TodoComment[] = [];
+    let position = 0;
+
+    while (position < text.length) {
+      if (this.openBlock) {
+        const [, blockEnd] = this.openBlock;
+        const endIndex = text.indexOf(blockEnd, position);
+        const bodyEnd = endIndex === -1 ? text.length : endIndex;
+        const todo = this.matchTag(text.slice(position, bodyEnd));
+
+        if (todo) {
+          const todoStart = position + todo[1].length;
+          comments.push({
+            tag: todo[2].toUpperCase(),
+            message: text.slice(position + todo[0].length, bodyEnd).trim(),
+            column: todoStart,
+            removeStart: todoStart,
+            removeEnd: bodyEnd
+          });
+        }
+
+        if (endIndex === -1) break;
+        position = endIndex + blockEnd.length;
+        this.openBlock = undefined;
+        continue;
+      }
+
+      const next = this.findNextComment(text, position);
+      if (!next) break;
+
+      if (next.block) {
+        const [blockStart, blockEnd] = next.block;
+        const bodyStart = next.index + blockStart.length;
+        const endIndex = text.indexOf(blockEnd, bodyStart);
+        const bodyEnd = endIndex === -1 ? text.length : endIndex;
+        const todo = this.matchTag(text.slice(bodyStart, bodyEnd));
+
+        if (todo) {
+          // A block closed on this line is removed with its delimiters, otherwise only the TODO text
+          comments.push({
+            tag: todo[2].toUpperCase(),
+            message: text.slice(bodyStart + todo[0].length, bodyEnd).trim(),
+            column: next.index,
+            removeStart: endIndex === -1 ? bodyStart + todo[1].length : next.index,
+            removeEnd: endIndex === -1 ? text.length : endIndex + blockEnd.length
+          });
+        }
+
+        if (endIndex === -1) {
+          this.openBlock = next.block;
+          break;
+        }
+        position = endIndex + blockEnd.length;
+        continue;
+      }
+
+      // Line comment: runs to the end of the line or to the next TODO comment with the same prefix
+      const prefix = next.line!;
+      const bodyStart = next.index + prefix.length;
+      const todo = this.matchTag(text.slice(bodyStart));
+      if (!todo) {
+        // The rest of the line is comment, only a TODO comment with the same prefix can follow
+        const laterTodo = this.findLaterTodo(text, prefix, bodyStart);
+        if (laterTodo === undefined) break;
+        position = laterTodo;
+        continue;
+      }
+
+      const messageStart = bodyStart + todo[0].length;
+      const messageEnd = this.findLaterTodo(text, prefix, messageStart) ?? text.length;
+
+      comments.push({
+        tag: todo[2].toUpperCase(),
+        message: text.slice(messageStart, messageEnd).trim(),
+        column: next.index,
+        removeStart: next.index,
+        removeEnd: messageEnd
+      });
+      position = messageEnd;
+    }
+
+    return comments;
+  }
+
+  // Earliest comment delimiter at or after from that is not inside a string literal
+  private findNextComment(text: string, from: number): { index: number; line?: string; block?: [string, string] } | undefined {
+    const quotes = this.syntax.strings || DEFAULT_STRINGS;
+
+    for (let index = from; index < text.length; index++) {
+      // Prefer the longest delimiter at the same position (e.g. "--[[" over "--")
+      let best: { length: number; line?: string; block?: [string, string] } | undefined;
+      (this.syntax.line || []).forEach(prefix => {
+        if (text.startsWith(prefix, index) && (!best || prefix.length > best.length)) {
+          best = { length: prefix.length, line: prefix };
+        }
+      });
+      (this.syntax.block || []).forEach(block => {
+        if (text.startsWith(block[0], index) && (!best || block[0].length > best.length)) {
+          best = { length: block[0].length, block };
+        }
+      });
+      if (best) {
+        return { index, line: best.line, block: best.block };
+      }
+
+      if (quotes.includes(text[index])) {
+        const end = this.findStringEnd(text, index);
+        // A quote without a closing one on the line is taken literally, e.g. an apostrophe or a Rust lifetime
+        if (end !== -1) {
+          index = end;
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  // Index of the quote closing the string opened at start, -1 when it is not closed on the line
+  private findStringEnd(text: string, start: number): number {
+    const quote = text[start];
+    for (let index = start + 1; index < text.length; index++) {
+      if (text[index] === '\\') {
+        index++;
+      } else if (text[index] === quote) {
+        return index;
+      }
+    }
+    return -1;
+  }
+}
+
+// TODO comments on a document line, taking block comments opened on earlier lines into account
+export function findTodoComments(document: vscode.TextDocument, lineNumber: number): TodoComment[] {
+  const scanner = new CommentScanner(document.languageId);
+  for (let i = 0; i < lineNumber; i++) {
+    scanner.scanLine(document.lineAt(i).text);
+  }
+  return scanner.scanLine(document.lineAt(lineNumber).text);
+}
+
+// Build a TODO comment in the language's preferred syntax
+export function formatTodoComment(languageId: string, text: string, kind: string = DEFAULT_KIND): string {
+  const syntax = getCommentSyntax(languageId);
+  if (syntax.line && syntax.line.length > 0) {
+    return `${syntax.line[0]} ${kind}: ${text}`;
+  }
+  if (syntax.block && syntax.block.length > 0) {
+    const [blockStart, blockEnd] = syntax.block[0];
+    return `${blockStart} ${kind}: ${text} ${blockEnd}`;
+  }
+  return `// ${kind}: ${text}`;
+}
+
+// Edit removing the given TODO comments from a line, or the whole line when nothing else is left.
+// Returns true when the whole line is removed.
+export function removeTodoComments(edit: vscode.WorkspaceEdit, document: vscode.TextDocument, lineNumber: number, comments: TodoComment[]): boolean {
+  const line = document.lineAt(lineNumber);
+  const text = line.text;
+
+  // Merge comments that are only separated by whitespace, e.g. "// TODO a // TODO b"
+  const ranges: [number, number][] = [];
+  for (const comment of [...comments].sort((a, b) => a.removeStart - b.removeStart)) {
+    const last = ranges[ranges.length - 1];
+    if (last && text.slice(last[1], comment.removeStart).trim() === '') {
+      last[1] = Math.max(last[1], comment.removeEnd);
+    } else {
+      ranges.push([comment.removeStart, comment.removeEnd]);
+    }
+  }
+
+  const remaining = ranges.reduceRight((result, [start, end]) => result.slice(0, start) + result.slice(end), text);
+  if (remaining.trim().length === 0) {
+    edit.delete(document.uri, line.rangeIncludingLineBreak || line.range);
+    return true;
+  }
+
+  for (const [removeStart, removeEnd] of ranges) {
+    // Also drop whitespace left in front of a trailing comment
+    let start = removeStart;
+    if (removeEnd === text.length) {
+      while (start > 0 && /\s/.test(text[start - 1])) start--;
+    }
+    edit.delete(document.uri, new vscode.Range(lineNumber, start, lineNumber, removeEnd));
+  }
+  return false;
+}
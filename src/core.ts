@@ -0,0 +1,499 @@
+// Editor-agnostic core of Awesome-TODO: the todo model, the TODO files of a repository and the
+// filtering rules. Used by the extension through utils and by the awesome-todo CLI under plain Node.
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import { getIdentityEmails, readRoster, rosterMemberToUser, RosterMember } from './roster';
+import { createRemoteTodoStorage } from './storage';
+
+export interface User {
+  name: string;
+  email: string;
+}
+
+// Content fingerprint used to re-locate a TODO after its file changed
+export interface TodoAnchor {
+  text: string; // Normalized text of the anchor line
+  before: string[]; // Normalized text of the lines above
+  after: string[]; // Normalized text of the lines below
+}
+
+export type TodoStatus = 'open' | 'in-progress' | 'blocked' | 'done';
+
+// Statuses each status may move to
+export const STATUS_TRANSITIONS: Record<TodoStatus, TodoStatus[]> = {
+  'open': ['in-progress', 'blocked', 'done'],
+  'in-progress': ['open', 'blocked', 'done'],
+  'blocked': ['open', 'in-progress', 'done'],
+  'done': ['open']
+};
+
+export const STATUS_LABELS: Record<TodoStatus, string> = {
+  'open': '⭕ Open',
+  'in-progress': '🔄 In Progress',
+  'blocked': '⛔ Blocked',
+  'done': '✅ Done'
+};
+
+export type TodoPriority = 'P0' | 'P1' | 'P2' | 'P3';
+
+export const PRIORITIES: TodoPriority[] = ['P0', 'P1', 'P2', 'P3'];
+export const DEFAULT_PRIORITY: TodoPriority = 'P2';
+
+export const PRIORITY_LABELS: Record<TodoPriority, string> = {
+  'P0': '🔴 P0',
+  'P1': '🟠 P1',
+  'P2': '🟡 P2',
+  'P3': '⚪ P3'
+};
+
+export interface TodoHistoryEntry {
+  field: string; // Name of the changed field, e.g. "status"
+  from?: string;
+  to: string;
+  by?: User; // Missing when git user information was not available
+  at: string;
+}
+
+// A message in the discussion thread of a remote todo
+export interface DiscussionComment {
+  id: string;
+  body: string;
+  author: User;
+  createdAt: string;
+  editedAt?: string;
+}
+
+// Issue in an external tracker that a todo was imported from
+export interface ExternalRef {
+  tracker: string; // e.g. "GitHub", "GitLab"
+  number: string; // Issue number as shown by the tracker, without "#"
+  url?: string;
+}
+
+export interface Todo {
+  file: string;
+  line: number;
+  column?: number; // Add column position for multiple todos per line
+  type: 'local' | 'remote';
+  kind?: string; // Tag of the comment it came from, e.g. "FIXME". Missing means "TODO".
+  message: string;
+  id?: string; // Add unique ID for multiple todos per line
+  anchor?: TodoAnchor; // Fingerprint of the anchor line and its neighbours
+  orphaned?: boolean; // Set when the anchor could no longer be found
+  status?: TodoStatus; // Missing means "open"
+  history?: TodoHistoryEntry[];
+  priority?: TodoPriority; // Missing means the default priority of its kind
+  dueDate?: string; // YYYY-MM-DD
+  labels?: string[];
+  // Remote todo specific fields
+  author?: User;
+  assignees?: User[];
+  createdAt?: string;
+  updatedAt?: string;
+  comments?: DiscussionComment[];
+  discussionResolved?: boolean;
+  externalRef?: ExternalRef;
+}
+
+export interface TagDefinition {
+  tag: string; // Upper-case word that starts the comment, e.g. "FIXME"
+  icon: string; // Shown in CodeLens titles, hovers and the tree view
+  color: string; // Accent color of the hover card
+  defaultPriority: TodoPriority; // Priority of TODOs of this kind that have none set
+  assignable: boolean; // Whether remote TODOs of this kind can have assignees
+}
+
+export const DEFAULT_KIND = 'TODO';
+
+export const DEFAULT_TAGS: TagDefinition[] = [
+  { tag: 'TODO', icon: '📝', color: '#ff6f00', defaultPriority: 'P2', assignable: true },
+  { tag: 'FIXME', icon: '🔧', color: '#d32f2f', defaultPriority: 'P1', assignable: true },
+  { tag: 'BUG', icon: '🐞', color: '#b71c1c', defaultPriority: 'P0', assignable: true },
+  { tag: 'HACK', icon: '⚠️', color: '#f57c00', defaultPriority: 'P2', assignable: true },
+  { tag: 'XXX', icon: '❗', color: '#6a1b9a', defaultPriority: 'P1', assignable: true },
+  { tag: 'NOTE', icon: '📌', color: '#1976d2', defaultPriority: 'P3', assignable: false }
+];
+
+const PRIORITY_VALUES = ['P0', 'P1', 'P2', 'P3'];
+
+// Clean up a configured tag vocabulary, TODO is always part of it
+export function normalizeTagDefinitions(configured: unknown): TagDefinition[] {
+  const tags: TagDefinition[] = [];
+
+  for (const entry of Array.isArray(configured) ? configured as Partial<TagDefinition>[] : []) {
+    if (!entry || typeof entry.tag !== 'string' || !/^[A-Za-z][\w-]*$/.test(entry.tag)) continue;
+
+    const tag = entry.tag.toUpperCase();
+    if (tags.some(definition => definition.tag === tag)) continue;
+
+    const fallback = DEFAULT_TAGS.find(definition => definition.tag === tag) || DEFAULT_TAGS[0];
+    tags.push({
+      tag,
+      icon: typeof entry.icon === 'string' && entry.icon ? entry.icon : fallback.icon,
+      color: typeof entry.color === 'string' && entry.color ? entry.color : fallback.color,
+      defaultPriority: PRIORITY_VALUES.includes(entry.defaultPriority as string) ? entry.defaultPriority as TodoPriority : fallback.defaultPriority,
+      assignable: typeof entry.assignable === 'boolean' ? entry.assignable : fallback.assignable
+    });
+  }
+
+  if (!tags.some(definition => definition.tag === DEFAULT_KIND)) {
+    tags.unshift(DEFAULT_TAGS[0]);
+  }
+  return tags;
+}
+
+export const WORKSPACE_SETTINGS_FILE = '.vscode/settings.json';
+
+// VS Code's settings files allow comments and trailing commas, JSON.parse does not
+function stripJsonComments(content: string): string {
+  // Copy a string literal, escapes included, and return the index after it
+  const copyString = (text: string, start: number, output: string[]): number => {
+    let end = start + 1;
+    while (end < text.length && text[end] !== '"') {
+      end += text[end] === '\\' ? 2 : 1;
+    }
+    output.push(text.slice(start, end + 1));
+    return end + 1;
+  };
+
+  const withoutComments: string[] = [];
+  for (let i = 0; i < content.length;) {
+    if (content[i] === '"') {
+      i = copyString(content, i, withoutComments);
+    } else if (content.startsWith('//', i)) {
+      const end = content.indexOf('\n', i);
+      i = end === -1 ? content.length : end;
+    } else if (content.startsWith('/*', i)) {
+      const end = content.indexOf('*/', i + 2);
+      i = end === -1 ? content.length : end + 2;
+    } else {
+      withoutComments.push(content[i++]);
+    }
+  }
+
+  const text = withoutComments.join('');
+  const output: string[] = [];
+  const closing = /\s*[\]}]/y;
+  for (let i = 0; i < text.length;) {
+    if (text[i] === '"') {
+      i = copyString(text, i, output);
+      continue;
+    }
+    closing.lastIndex = i + 1;
+    if (text[i] !== ',' || !closing.test(text)) {
+      output.push(text[i]);
+    }
+    i++;
+  }
+  return output.join('');
+}
+
+// Tag vocabulary of the "awesomeTodo.tags" setting in the workspace settings of the root directory,
+// the built-in tags without one. Errors are thrown to the caller.
+export function readTagDefinitions(root: string): TagDefinition[] {
+  const settingsPath = path.join(root, ...WORKSPACE_SETTINGS_FILE.split('/'));
+  if (!fs.existsSync(settingsPath)) {
+    return DEFAULT_TAGS;
+  }
+  const settings = JSON.parse(stripJsonComments(fs.readFileSync(settingsPath, 'utf8')));
+  const configured = settings?.['awesomeTodo.tags'];
+  return configured === undefined ? DEFAULT_TAGS : normalizeTagDefinitions(configured);
+}
+
+// Definition for a todo kind, tags missing from the vocabulary fall back to TODO's look
+export function findTagDefinition(tags: TagDefinition[], kind?: string): TagDefinition {
+  const tag = (kind || DEFAULT_KIND).toUpperCase();
+  return tags.find(definition => definition.tag === tag)
+    || { ...(tags.find(definition => definition.tag === DEFAULT_KIND) || DEFAULT_TAGS[0]), tag };
+}
+
+// Split a leading tag off user input, e.g. "FIXME: crash on save"
+export function splitTodoKind(text: string, tagNames: string[]): { kind: string; text: string } {
+  const match = text.match(/^\s*([A-Za-z][\w-]*)\s*:\s*/);
+  if (match && tagNames.includes(match[1].toUpperCase())) {
+    return { kind: match[1].toUpperCase(), text: text.slice(match[0].length) };
+  }
+  return { kind: DEFAULT_KIND, text };
+}
+
+export function resolveTodoPriority(todo: Todo, tags: TagDefinition[]): TodoPriority {
+  return todo.priority || findTagDefinition(tags, todo.kind).defaultPriority || DEFAULT_PRIORITY;
+}
+
+export const LOCAL_TODO_FILE = '.localtodos.json';
+export const TEAM_FILE = '.awesometeam.json';
+
+// Stored paths are workspace-relative with forward slashes so they resolve on every OS
+export function toStoredPath(root: string, filePath: string): string {
+  const relativePath = path.relative(root, filePath);
+  if (!relativePath || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    return filePath;
+  }
+  return relativePath.split(path.sep).join('/');
+}
+
+function isAbsoluteStoredPath(storedPath: string): boolean {
+  return path.posix.isAbsolute(storedPath) || path.win32.isAbsolute(storedPath);
+}
+
+// Map an absolute path written on another machine (e.g. "d:\work\repo\src\a.ts") into the root directory
+function relativizeLegacyPath(root: string, storedPath: string): string | undefined {
+  const segments = storedPath.split(/[\\/]+/).filter(segment => segment.length > 0);
+
+  if (path.isAbsolute(storedPath)) {
+    const ownPath = toStoredPath(root, storedPath);
+    if (ownPath !== storedPath) {
+      return ownPath;
+    }
+  }
+
+  // Prefer the longest suffix of the path that exists in the root directory
+  for (let i = 1; i < segments.length; i++) {
+    const candidate = segments.slice(i).join('/');
+    if (fs.existsSync(path.join(root, candidate))) {
+      return candidate;
+    }
+  }
+
+  // Otherwise take everything after a directory named like the root directory
+  const folderIndex = segments.lastIndexOf(path.basename(root));
+  if (folderIndex !== -1 && folderIndex < segments.length - 1) {
+    return segments.slice(folderIndex + 1).join('/');
+  }
+
+  return undefined;
+}
+
+export interface LoadedTodos {
+  todos: Todo[]; // With absolute paths
+  migrated: boolean; // Legacy absolute paths were found, saving the todos rewrites them
+}
+
+// Resolve stored paths against the root directory. Legacy absolute entries are mapped into it when possible.
+export function resolveStoredTodos(root: string, todos: Todo[]): LoadedTodos {
+  let migrated = false;
+
+  const storedTodos = todos.map(todo => {
+    if (typeof todo.file !== 'string' || !isAbsoluteStoredPath(todo.file)) {
+      return todo;
+    }
+    const relativePath = relativizeLegacyPath(root, todo.file);
+    if (relativePath === undefined) {
+      return todo;
+    }
+    migrated = true;
+    return { ...todo, file: relativePath };
+  });
+
+  return {
+    todos: storedTodos.map(todo => typeof todo.file !== 'string' || isAbsoluteStoredPath(todo.file)
+      ? todo
+      : { ...todo, file: path.join(root, ...todo.file.split('/')) }),
+    migrated
+  };
+}
+
+export function toStoredTodos(root: string, todos: Todo[]): Todo[] {
+  return todos.map(todo => ({ ...todo, file: toStoredPath(root, todo.file) }));
+}
+
+function readJsonList<T>(filePath: string): T[] {
+  if (!fs.existsSync(filePath)) {
+    return [];
+  }
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  return Array.isArray(data) ? data : [];
+}
+
+// Reading and writing the TODO files of a root directory. Errors are thrown to the caller.
+export function readLocalTodos(root: string): LoadedTodos {
+  return resolveStoredTodos(root, readJsonList<Todo>(path.join(root, LOCAL_TODO_FILE)));
+}
+
+export function writeLocalTodos(root: string, todos: Todo[]): void {
+  fs.writeFileSync(path.join(root, LOCAL_TODO_FILE), JSON.stringify(toStoredTodos(root, todos), null, 2));
+}
+
+// Single file or sharded, depending on the layout found in the root directory
+export function readRemoteTodos(root: string): LoadedTodos {
+  return resolveStoredTodos(root, createRemoteTodoStorage(root).load());
+}
+
+export function writeRemoteTodos(root: string, todos: Todo[]): void {
+  createRemoteTodoStorage(root).save(toStoredTodos(root, todos));
+}
+
+export function readTeamMembers(root: string): User[] {
+  return readJsonList<User>(path.join(root, TEAM_FILE));
+}
+
+export function writeTeamMembers(root: string, team: User[]): void {
+  fs.writeFileSync(path.join(root, TEAM_FILE), JSON.stringify(team, null, 2));
+}
+
+// The shared roster when the repository has one, the personal team file otherwise
+export function readTeam(root: string): User[] {
+  const roster = readRoster(root);
+  return roster ? roster.map(rosterMemberToUser) : readTeamMembers(root);
+}
+
+// Git identity from `git config`, null when git is missing or not configured
+export function getGitUser(cwd: string): User | null {
+  try {
+    const name = execFileSync('git', ['config', 'user.name'], { cwd, encoding: 'utf8' }).trim();
+    const email = execFileSync('git', ['config', 'user.email'], { cwd, encoding: 'utf8' }).trim();
+    return name && email ? { name, email } : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Add new todos to the stored ones, suffixing ids that are already taken. Local ids are built from
+// the position, which a todo converted on a line that moved up can share with an earlier one.
+export function appendTodos(existing: Todo[], todos: Todo[]): Todo[] {
+  const taken = new Set(existing.map(todo => todo.id));
+  for (const todo of todos) {
+    const base = todo.id;
+    for (let suffix = 2; todo.id && taken.has(todo.id); suffix++) {
+      todo.id = `${base}-${suffix}`;
+    }
+    taken.add(todo.id);
+  }
+  return [...existing, ...todos];
+}
+
+export function getTodoStatus(todo: Todo): TodoStatus {
+  return todo.status || 'open';
+}
+
+export function canTransitionStatus(from: TodoStatus, to: TodoStatus): boolean {
+  return STATUS_TRANSITIONS[from].includes(to);
+}
+
+// Change the status of a todo and record the change in its history
+export function setTodoStatus(todo: Todo, status: TodoStatus, user: User | null): boolean {
+  const currentStatus = getTodoStatus(todo);
+  if (!canTransitionStatus(currentStatus, status)) {
+    return false;
+  }
+
+  const now = new Date().toISOString();
+  todo.status = status;
+  todo.history = [
+    ...(todo.history || []),
+    { field: 'status', from: currentStatus, to: status, ...(user ? { by: user } : {}), at: now }
+  ];
+  if (todo.type === 'remote') {
+    todo.updatedAt = now;
+  }
+  return true;
+}
+
+export function isValidDueDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const [year, month, day] = value.split('-').map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+}
+
+function toLocalDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// A todo is overdue once its due date has passed and it is not completed
+export function isTodoOverdue(todo: Todo, now: Date = new Date()): boolean {
+  if (!todo.dueDate || getTodoStatus(todo) === 'done') return false;
+  return todo.dueDate < toLocalDateString(now);
+}
+
+// Short name of a linked issue, e.g. "GitHub #42"
+export function formatExternalRef(ref: ExternalRef): string {
+  return `${ref.tracker} #${ref.number}`;
+}
+
+// Only web links are opened, the URL comes from an imported file
+export function getExternalRefUrl(ref: ExternalRef): string | undefined {
+  return ref.url && /^https?:\/\//i.test(ref.url) ? ref.url : undefined;
+}
+
+// Extract inline metadata from a TODO comment: "[P1]", "due:2025-10-01" and "#label"
+export function parseTodoMetadata(text: string): Pick<Todo, 'message' | 'priority' | 'dueDate' | 'labels'> {
+  let priority: TodoPriority | undefined;
+  let dueDate: string | undefined;
+  const labels: string[] = [];
+
+  const message = text
+    .replace(/\[(P[0-3])\]/gi, (match, value: string) => {
+      priority = value.toUpperCase() as TodoPriority;
+      return '';
+    })
+    .replace(/\bdue:(\d{4}-\d{2}-\d{2})\b/gi, (match, value: string) => {
+      if (!isValidDueDate(value)) return match;
+      dueDate = value;
+      return '';
+    })
+    .replace(/(^|\s)#([A-Za-z][\w-]*)/g, (match, prefix: string, label: string) => {
+      if (!labels.includes(label)) labels.push(label);
+      return prefix;
+    })
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return {
+    message,
+    ...(priority ? { priority } : {}),
+    ...(dueDate ? { dueDate } : {}),
+    ...(labels.length > 0 ? { labels } : {})
+  };
+}
+
+// Inverse of parseTodoMetadata, used when a todo is turned back into a comment
+export function formatTodoMetadata(todo: Todo): string {
+  const tokens: string[] = [];
+  if (todo.priority) tokens.push(`[${todo.priority}]`);
+  if (todo.dueDate) tokens.push(`due:${todo.dueDate}`);
+  (todo.labels || []).forEach(label => tokens.push(`#${label}`));
+  return tokens.join(' ');
+}
+
+// Filter remote todos based on user visibility, any email alias of the user in the roster counts
+export function filterVisibleRemoteTodos(todos: Todo[], userEmail: string, roster: RosterMember[] = []): Todo[] {
+  const emails = getIdentityEmails(roster, userEmail);
+  const isUser = (user?: User) => !!user?.email && emails.includes(user.email.toLowerCase());
+  return todos.filter(todo =>
+    todo.type === 'remote' &&
+    (isUser(todo.author) || todo.assignees?.some(isUser))
+  );
+}
+
+// Which remote todos are shown: the user's own, all of the team's, the unassigned ones, or those of one team member
+export type VisibilityMode = 'mine' | 'team' | 'unassigned' | 'person';
+
+export interface Visibility {
+  mode: VisibilityMode;
+  person?: User; // The team member shown in 'person' mode
+}
+
+export const VISIBILITY_LABELS: Record<VisibilityMode, string> = {
+  mine: 'Mine',
+  team: 'Team',
+  unassigned: 'Unassigned',
+  person: 'Person'
+};
+
+// Remote todos shown in a visibility mode. A person sees the same todos the user sees of themselves in 'mine' mode.
+export function filterRemoteTodosByVisibility(todos: Todo[], visibility: Visibility, userEmail: string, roster: RosterMember[] = []): Todo[] {
+  switch (visibility.mode) {
+    case 'team':
+      return todos.filter(todo => todo.type === 'remote');
+    case 'unassigned':
+      return todos.filter(todo => todo.type === 'remote' && !todo.assignees?.length);
+    case 'person':
+      return visibility.person ? filterVisibleRemoteTodos(todos, visibility.person.email, roster) : [];
+    default:
+      return filterVisibleRemoteTodos(todos, userEmail, roster);
+  }
+}
@@ -0,0 +1,222 @@
+import * as vscode from 'vscode';
+import { TodoStore } from './todoStore';
+import { isSameIdentity, DiscussionComment, Todo } from './utils';
+
+export const DISCUSSION_CONTROLLER_ID = 'awesomeTodo.discussion';
+
+// A stored discussion comment as shown in a comment thread
+export class DiscussionCommentView implements vscode.Comment {
+  body: string | vscode.MarkdownString;
+  mode = vscode.CommentMode.Preview;
+  author: vscode.CommentAuthorInformation;
+  contextValue: string;
+  timestamp: Date;
+  label: string | undefined;
+
+  constructor(public readonly todoId: string, public readonly comment: DiscussionComment, isOwn: boolean) {
+    this.body = new vscode.MarkdownString(comment.body);
+    this.author = { name: comment.author.name };
+    // Only your own comments get the edit and delete actions
+    this.contextValue = isOwn ? 'ownComment' : 'comment';
+    this.timestamp = new Date(comment.editedAt || comment.createdAt);
+    this.label = comment.editedAt ? 'edited' : undefined;
+  }
+}
+
+function newCommentId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function bodyText(body: string | vscode.MarkdownString): string {
+  return typeof body === 'string' ? body : body.value;
+}
+
+// Shows the discussion of every visible remote TODO as a comment thread at the TODO's line
+export class TodoDiscussionController implements vscode.Disposable {
+  private readonly controller: vscode.CommentController;
+  private readonly threads = new Map<string, vscode.CommentThread>();
+  private readonly threadTodos = new Map<vscode.CommentThread, string>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  constructor(private readonly store: TodoStore) {
+    this.controller = vscode.comments.createCommentController(DISCUSSION_CONTROLLER_ID, 'TODO Discussion');
+    // New threads can be started on lines holding a remote TODO
+    this.controller.commentingRangeProvider = {
+      provideCommentingRanges: async (document) => {
+        const todos = await this.getVisibleTodos(document.uri.fsPath);
+        return todos
+          .filter(todo => todo.file === document.uri.fsPath && todo.line < document.lineCount)
+          .map(todo => new vscode.Range(todo.line, 0, todo.line, 0));
+      }
+    };
+
+    this.disposables.push(
+      this.controller,
+      store.onDidChange(() => this.refresh()),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.refresh())
+    );
+    this.refresh();
+  }
+
+  async reply(reply: vscode.CommentReply): Promise<void> {
+    const user = this.store.getUser(reply.thread.uri.fsPath);
+    if (!user) {
+      vscode.window.showErrorMessage('Git user information not available. Please configure git first.');
+      return;
+    }
+
+    const todo = await this.findThreadTodo(reply.thread);
+    if (!todo?.id) {
+      vscode.window.showErrorMessage('Discussions can only be started on a line with a remote TODO.');
+      return;
+    }
+
+    const comment: DiscussionComment = { id: newCommentId(), body: reply.text, author: user, createdAt: new Date().toISOString() };
+    const saved = await this.updateTodo(todo, stored => {
+      stored.comments = [...(stored.comments || []), comment];
+    });
+
+    // A thread started from the gutter is replaced by the one created for the TODO
+    if (saved && !this.threadTodos.has(reply.thread)) {
+      reply.thread.dispose();
+    }
+  }
+
+  startEdit(comment: DiscussionCommentView): void {
+    this.setMode(comment, vscode.CommentMode.Editing);
+  }
+
+  cancelEdit(comment: DiscussionCommentView): void {
+    comment.body = new vscode.MarkdownString(comment.comment.body);
+    this.setMode(comment, vscode.CommentMode.Preview);
+  }
+
+  async saveEdit(comment: DiscussionCommentView): Promise<void> {
+    const body = bodyText(comment.body);
+    await this.updateOwnComment(comment, comments => comments.map(stored =>
+      stored.id === comment.comment.id ? { ...stored, body, editedAt: new Date().toISOString() } : stored
+    ));
+  }
+
+  async deleteComment(comment: DiscussionCommentView): Promise<void> {
+    await this.updateOwnComment(comment, comments => comments.filter(stored => stored.id !== comment.comment.id));
+  }
+
+  async setResolved(thread: vscode.CommentThread, resolved: boolean): Promise<void> {
+    const todo = await this.findThreadTodo(thread);
+    if (!todo) return;
+
+    await this.updateTodo(todo, stored => {
+      if (resolved) {
+        stored.discussionResolved = true;
+      } else {
+        delete stored.discussionResolved;
+      }
+    });
+  }
+
+  private setMode(comment: DiscussionCommentView, mode: vscode.CommentMode): void {
+    const thread = this.threads.get(comment.todoId);
+    if (!thread) return;
+
+    comment.mode = mode;
+    // Re-assigning the comments makes the editor pick up the change
+    thread.comments = thread.comments.map(existing => existing);
+  }
+
+  private async updateOwnComment(comment: DiscussionCommentView, change: (comments: DiscussionComment[]) => DiscussionComment[]): Promise<void> {
+    const todo = (await this.getVisibleTodos()).find(t => t.id === comment.todoId);
+    if (!todo) return;
+
+    const user = this.store.getUser(todo.file);
+    // Comments written under any roster alias of the user are their own
+    if (!user || !isSameIdentity(this.store.getRoster(todo.file), comment.comment.author.email, user.email)) {
+      vscode.window.showWarningMessage('You can only change your own comments.');
+      return;
+    }
+
+    await this.updateTodo(todo, stored => {
+      stored.comments = change(stored.comments || []);
+      if (stored.comments.length === 0) {
+        delete stored.comments;
+        delete stored.discussionResolved;
+      }
+    });
+  }
+
+  private updateTodo(todo: Todo, change: (stored: Todo) => void): Promise<boolean> {
+    return this.store.update('remote', todo.file, (todos) => {
+      const stored = todos.find(t => t.id === todo.id);
+      if (!stored) return undefined;
+
+      change(stored);
+      stored.updatedAt = new Date().toISOString();
+      return todos;
+    });
+  }
+
+  private async findThreadTodo(thread: vscode.CommentThread): Promise<Todo | undefined> {
+    const todoId = this.threadTodos.get(thread);
+    const todos = await this.getVisibleTodos(thread.uri.fsPath);
+    if (todoId) {
+      return todos.find(todo => todo.id === todoId);
+    }
+    const line = thread.range?.start.line;
+    return todos.find(todo => todo.file === thread.uri.fsPath && todo.line === line);
+  }
+
+  private getVisibleTodos(filePath?: string): Promise<Todo[]> {
+    return this.store.getVisibleRemoteTodos(filePath);
+  }
+
+  // Create, update and dispose threads to match the stored discussions
+  private async refresh(): Promise<void> {
+    const todos = (await this.getVisibleTodos()).filter(todo => todo.id && todo.comments?.length);
+    const ids = new Set(todos.map(todo => todo.id!));
+
+    this.threads.forEach((thread, id) => {
+      if (!ids.has(id)) {
+        thread.dispose();
+        this.threads.delete(id);
+        this.threadTodos.delete(thread);
+      }
+    });
+
+    for (const todo of todos) {
+      const id = todo.id!;
+      const user = this.store.getUser(todo.file);
+      const roster = this.store.getRoster(todo.file);
+      const range = new vscode.Range(todo.line, 0, todo.line, 0);
+      let thread = this.threads.get(id);
+      // Keep comments that are being edited, store changes arrive on every keystroke in the file
+      const editing = (thread?.comments || []).filter(
+        (comment): comment is DiscussionCommentView => comment instanceof DiscussionCommentView && comment.mode === vscode.CommentMode.Editing
+      );
+      const comments = todo.comments!.map(comment =>
+        editing.find(view => view.comment.id === comment.id) ||
+        new DiscussionCommentView(id, comment, !!user && isSameIdentity(roster, comment.author.email, user.email))
+      );
+
+      if (!thread || thread.uri.fsPath !== todo.file) {
+        thread?.dispose();
+        thread = this.controller.createCommentThread(vscode.Uri.file(todo.file), range, comments);
+        this.threads.set(id, thread);
+        this.threadTodos.set(thread, id);
+      } else {
+        thread.range = range;
+        thread.comments = comments;
+      }
+
+      const resolved = todo.discussionResolved === true;
+      thread.label = `${resolved ? '✅ Resolved' : '💬 Discussion'}: ${todo.message}`;
+      thread.contextValue = resolved ? 'resolved' : 'unresolved';
+      thread.state = resolved ? vscode.CommentThreadState.Resolved : vscode.CommentThreadState.Unresolved;
+      thread.canReply = !resolved;
+    }
+  }
+
+  dispose(): void {
+    this.threads.forEach(thread => thread.dispose());
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
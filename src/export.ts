@@ -0,0 +1,185 @@
+import * as path from 'path';
+import { getTagDefinition } from './tags';
+import { getTodoPriority, getTodoStatus, toWorkspaceRelativePath, STATUS_LABELS, Todo, TodoStatus } from './utils';
+
+export type ExportFormat = 'markdown' | 'csv' | 'json';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: 'Markdown report',
+  csv: 'CSV spreadsheet',
+  json: 'JSON'
+};
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  csv: 'csv',
+  json: 'json'
+};
+
+export interface ExportFilter {
+  assignee?: string; // Email of the assignee, or '' for unassigned TODOs
+  pathGlob?: string; // Matched against the workspace-relative path, e.g. "src/**/*.ts"
+}
+
+// One exported TODO, flat and with plain values so every format can be built from it
+export interface ExportedTodo {
+  id?: string;
+  type: Todo['type'];
+  kind: string;
+  file: string; // Workspace-relative, forward slashes
+  line: number; // 1-based
+  link: string; // Relative to the exported file, with a #L<line> fragment
+  message: string;
+  status: TodoStatus;
+  priority: string;
+  dueDate?: string;
+  labels: string[];
+  author?: string;
+  assignees: string[];
+  createdAt?: string;
+  updatedAt?: string;
+  ageDays?: number; // Whole days since creation
+}
+
+const STATUS_ORDER: TodoStatus[] = ['open', 'in-progress', 'blocked', 'done'];
+const DAY = 24 * 60 * 60 * 1000;
+
+// Supports "**", "*", "?" and "{a,b}" alternatives
+export function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches no directory at all
+      pattern += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      pattern += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      pattern += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      pattern += '|';
+    } else {
+      pattern += char.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${pattern}$`);
+}
+
+export function filterExportTodos(todos: Todo[], filter: ExportFilter): Todo[] {
+  const glob = filter.pathGlob?.trim() ? globToRegExp(filter.pathGlob.trim()) : undefined;
+
+  return todos.filter(todo => {
+    if (glob && !glob.test(toWorkspaceRelativePath(todo.file))) return false;
+    if (filter.assignee === undefined) return true;
+    if (filter.assignee === '') return !todo.assignees || todo.assignees.length === 0;
+    return todo.assignees?.some(assignee => assignee.email === filter.assignee) || false;
+  });
+}
+
+// Local todos have no creation date, their first history entry is the closest thing
+function getCreatedAt(todo: Todo): string | undefined {
+  return todo.createdAt || todo.history?.map(entry => entry.at).sort()[0];
+}
+
+export function toExportedTodos(todos: Todo[], outputDirectory: string, now: Date = new Date()): ExportedTodo[] {
+  return todos
+    .map(todo => {
+      const createdAt = getCreatedAt(todo);
+      const created = createdAt ? Date.parse(createdAt) : NaN;
+      const link = path.relative(outputDirectory, todo.file).split(path.sep).join('/');
+
+      return {
+        ...(todo.id ? { id: todo.id } : {}),
+        type: todo.type,
+        kind: getTagDefinition(todo.kind).tag,
+        file: toWorkspaceRelativePath(todo.file),
+        line: todo.line + 1,
+        link: `${link}#L${todo.line + 1}`,
+        message: todo.message,
+        status: getTodoStatus(todo),
+        priority: getTodoPriority(todo),
+        ...(todo.dueDate ? { dueDate: todo.dueDate } : {}),
+        labels: todo.labels || [],
+        ...(todo.author ? { author: todo.author.name } : {}),
+        assignees: (todo.assignees || []).map(assignee => assignee.name),
+        ...(createdAt ? { createdAt } : {}),
+        ...(todo.updatedAt ? { updatedAt: todo.updatedAt } : {}),
+        ...(isNaN(created) ? {} : { ageDays: Math.max(0, Math.floor((now.getTime() - created) / DAY)) })
+      };
+    })
+    .sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line);
+}
+
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function formatAge(todo: ExportedTodo): string {
+  return todo.ageDays === undefined ? '' : `${todo.ageDays}d`;
+}
+
+// One table per status, open work first
+export function formatMarkdownReport(todos: ExportedTodo[], title: string): string {
+  const lines = [`# ${title}`, '', `${todos.length} TODO${todos.length === 1 ? '' : 's'} exported on ${new Date().toISOString().slice(0, 10)}.`];
+
+  for (const status of STATUS_ORDER) {
+    const group = todos.filter(todo => todo.status === status);
+    if (group.length === 0) continue;
+
+    lines.push('', `## ${STATUS_LABELS[status]} (${group.length})`, '');
+    lines.push('| Location | TODO | Priority | Assignees | Due | Age |');
+    lines.push('| --- | --- | --- | --- | --- | --- |');
+    for (const todo of group) {
+      const location = `[${escapeMarkdownCell(`${todo.file}:${todo.line}`)}](${encodeURI(todo.link)})`;
+      const labels = todo.labels.map(label => ` \`#${label}\``).join('');
+      const message = `${todo.kind}: ${escapeMarkdownCell(todo.message)}${labels}`;
+      const assignees = todo.type === 'local' ? '_local_' : escapeMarkdownCell(todo.assignees.join(', ') || 'Unassigned');
+      lines.push(`| ${location} | ${message} | ${todo.priority} | ${assignees} | ${todo.dueDate || ''} | ${formatAge(todo)} |`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+function escapeCsvValue(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatCsv(todos: ExportedTodo[]): string {
+  const header = ['File', 'Line', 'Link', 'Type', 'Kind', 'Message', 'Status', 'Priority', 'Due Date', 'Labels', 'Author', 'Assignees', 'Created', 'Age (days)'];
+  const rows = todos.map(todo => [
+    todo.file,
+    String(todo.line),
+    todo.link,
+    todo.type,
+    todo.kind,
+    todo.message,
+    todo.status,
+    todo.priority,
+    todo.dueDate || '',
+    todo.labels.join('; '),
+    todo.author || '',
+    todo.assignees.join('; '),
+    todo.createdAt || '',
+    todo.ageDays === undefined ? '' : String(todo.ageDays)
+  ]);
+  // CRLF line endings, as spreadsheet applications expect
+  return [header, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+}
+
+export function formatJson(todos: ExportedTodo[]): string {
+  return JSON.stringify(todos, null, 2) + '\n';
+}
+
+export function formatExport(todos: ExportedTodo[], format: ExportFormat, title: string): string {
+  if (format === 'markdown') return formatMarkdownReport(todos, title);
+  if (format === 'csv') return formatCsv(todos);
+  return formatJson(todos);
+}
@@ -1,6 +1,22 @@
 import * as vscode from "vscode";
+import * as path from "path";
 import { TodoCodeActionProvider } from "./provider";
-import { Todo, loadTodos, saveTodos, loadRemoteTodos, saveRemoteTodos, getGitUserInfo, filterVisibleRemoteTodos, User, loadTeamMembers, addTeamMember, removeTeamMember } from "./utils";
+import { CommentScanner, findTodoComments, formatTodoComment, removeTodoComments } from "./commentSyntax";
+import { scanWorkspaceForTodoComments, ScannedTodoComment } from "./scanner";
+import { getTagDefinition, parseTodoKind, DEFAULT_KIND } from "./tags";
+import { TodoFileWatcher } from "./watcher";
+import { TodoDiscussionController, DiscussionCommentView } from "./discussion";
+import { TodoHoverProvider, HoverActionArgs, HOVER_ACTION_COMMAND, getHoverActionCommand } from "./hover";
+import { TodoStore, TodoStorageType } from "./todoStore";
+import { TodoTreeProvider, TodoTreeElement, TodoGrouping, GROUPING_LABELS, WorkloadTreeProvider } from "./treeView";
+import { installMergeDriver, updateMergeDriver } from "./mergeDriver";
+import { readContributors, Contributor } from "./gitHistory";
+import { readCodeOwners, suggestAssignees, CodeOwnersRule, MAX_ASSIGNEE_SUGGESTIONS } from "./ownership";
+import { detectIssueFormat, issueToTodo, isSameExternalRef, matchTeamMember, parseIssues, IssueFormat, ISSUE_FORMAT_LABELS } from "./issueImport";
+import { filterExportTodos, formatExport, toExportedTodos, ExportFormat, ExportFilter, EXPORT_FORMAT_LABELS, EXPORT_FILE_EXTENSIONS } from "./export";
+import { detectRemoteStorageLayout, migrateRemoteTodoStorage, RemoteStorageLayout, STORAGE_LAYOUT_LABELS } from "./storage";
+import { createAnchor, getDocumentLines, relocateTodos, shiftTodosForChanges } from "./anchors";
+import { Todo, formatTodoLocation, getWorkspaceFolderForFile, Visibility, VisibilityMode, VISIBILITY_LABELS, findRosterMember, isSameIdentity, loadRoster, saveRoster, createRoster, ROSTER_FILE, pickWorkspaceFolder, getActiveWorkspaceFolder, User, loadTeamMembers, addTeamMember, removeTeamMember, toWorkspaceRelativePath, TodoStatus, STATUS_LABELS, STATUS_TRANSITIONS, getTodoStatus, setTodoStatus, appendTodos, filterEditorTodos, PRIORITIES, PRIORITY_LABELS, getTodoPriority, isValidDueDate, isTodoOverdue, formatTodoDetails, parseTodoMetadata, formatTodoMetadata, formatExternalRef, getExternalRefUrl } from "./utils";
 
 class TodoCodeLensProvider implements vscode.CodeLensProvider {
   private _onDidChangeCodeLenses: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
@@ -10,12 +26,13 @@ class TodoCodeLensProvider implements vscode.CodeLensProvider {
     const codeLenses: vscode.CodeLens[] = [];
 
     // Check for TODO comments that can be converted
+    const scanner = new CommentScanner(document.languageId);
     for (let i = 0; i < document.lineCount; i++) {
       const line = document.lineAt(i);
       const lineText = line.text.trim();
 
       // Check if this line has a TODO comment
-      if (/^((\/\/)|#)\s*TODO[:\-]?\s*/i.test(lineText)) {
+      if (scanner.scanLine(line.text).length > 0) {
         const range = new vscode.Range(i, 0, i, line.text.length);
 
         // Create CodeLens for local conversion
@@ -38,23 +55,21 @@ class TodoCodeLensProvider implements vscode.CodeLensProvider {
       }
     }
 
-    // Get user info for filtering remote todos
-    const userInfo = getGitUserInfo();
-    const userEmail = userInfo?.email || '';
-
     // Check for stored local TODOs
-    const localTodos = await loadTodos(document.uri.fsPath);
-    const fileLocalTodos = localTodos.filter(todo => todo.file === document.uri.fsPath);
+    const fileLocalTodos = filterEditorTodos(await todoStore.getFileTodos('local', document.uri.fsPath));
 
     for (const todo of fileLocalTodos) {
-      if (todo.line < document.lineCount) {
-        const line = document.lineAt(todo.line);
-        const range = new vscode.Range(todo.line, 0, todo.line, line.text.length);
-
-        // Create display CodeLens with TODO message
+      // Orphaned TODOs stay visible on the closest line so they can be moved back
+      const lineNumber = todo.orphaned ? Math.min(todo.line, document.lineCount - 1) : todo.line;
+      if (lineNumber < document.lineCount) {
+        const line = document.lineAt(lineNumber);
+        const range = new vscode.Range(lineNumber, 0, lineNumber, line.text.length);
+
+        // Create display CodeLens with TODO message, styled by its tag
+        const tag = getTagDefinition(todo.kind);
         const displayLens = new vscode.CodeLens(range, {
-          title: `📝 TODO: ${todo.message}`,
-          tooltip: `Local TODO: ${todo.message}`,
+          title: `${todo.orphaned ? `⚠️ Orphaned ${tag.tag}` : `${tag.icon} ${tag.tag}`}: ${todo.message} (${formatTodoDetails(todo)})`,
+          tooltip: todo.orphaned ? `Local ${tag.tag}: ${todo.message}\nThe original code could not be found, use Move to re-anchor it` : `Local ${tag.tag}: ${todo.message}`,
           command: '' // Non-clickable display
         });
 
@@ -63,43 +78,53 @@ class TodoCodeLensProvider implements vscode.CodeLensProvider {
           title: "✏️ Edit",
           tooltip: "Convert back to comment and remove from storage",
           command: 'localTodo.editTodo',
-          arguments: [document, todo.line, todo]
+          arguments: [document, lineNumber, todo]
+        });
+
+        const statusLens = new vscode.CodeLens(range, {
+          title: STATUS_LABELS[getTodoStatus(todo)],
+          tooltip: "Change the status of this TODO",
+          command: 'awesomeTodo.setStatus',
+          arguments: [document, lineNumber, todo]
         });
 
         const moveLens = new vscode.CodeLens(range, {
           title: "📍 Move",
           tooltip: "Move this TODO to another line",
           command: 'localTodo.moveTodo',
-          arguments: [document, todo.line, todo]
+          arguments: [document, lineNumber, todo]
         });
 
         const removeLens = new vscode.CodeLens(range, {
           title: "🗑️ Remove",
           tooltip: "Delete this TODO permanently",
           command: 'localTodo.removeTodo',
-          arguments: [document, todo.line, todo]
+          arguments: [document, lineNumber, todo]
         });
 
         // Add display lens and action buttons
-        codeLenses.push(displayLens, editLens, moveLens, removeLens);
+        codeLenses.push(displayLens, statusLens, editLens, moveLens, removeLens);
       }
     }
 
     // Check for stored remote TODOs (filtered by user visibility)
-    const allRemoteTodos = await loadRemoteTodos(document.uri.fsPath);
-    const visibleRemoteTodos = filterVisibleRemoteTodos(allRemoteTodos, userEmail).filter(todo => todo.file === document.uri.fsPath);
+    const fileRemoteTodos = await todoStore.getFileTodos('remote', document.uri.fsPath);
+    const visibleRemoteTodos = filterEditorTodos(todoStore.filterVisibleTodos(fileRemoteTodos, document.uri.fsPath));
 
     for (const todo of visibleRemoteTodos) {
-      if (todo.line < document.lineCount) {
-        const line = document.lineAt(todo.line);
-        const range = new vscode.Range(todo.line, 0, todo.line, line.text.length);
+      const lineNumber = todo.orphaned ? Math.min(todo.line, document.lineCount - 1) : todo.line;
+      if (lineNumber < document.lineCount) {
+        const line = document.lineAt(lineNumber);
+        const range = new vscode.Range(lineNumber, 0, lineNumber, line.text.length);
 
         // Create display CodeLens with remote TODO message
         const authorName = todo.author?.name || 'Unknown';
         const assigneeNames = todo.assignees?.map(a => a.name).join(', ') || 'None';
+        const orphanedNote = todo.orphaned ? '\nThe original code could not be found, use Move to re-anchor it' : '';
+        const tag = getTagDefinition(todo.kind);
         const displayLens = new vscode.CodeLens(range, {
-          title: `🌐 TODO: ${todo.message}`,
-          tooltip: `Remote TODO by ${authorName}\nAssignees: ${assigneeNames}`,
+          title: `${todo.orphaned ? `⚠️ Orphaned ${tag.tag}` : `🌐 ${tag.icon} ${tag.tag}`}: ${todo.message} (${formatTodoDetails(todo)})`,
+          tooltip: `Remote ${tag.tag} by ${authorName}\nAssignees: ${assigneeNames}${orphanedNote}`,
           command: '' // Non-clickable display
         });
 
@@ -108,28 +133,35 @@ class TodoCodeLensProvider implements vscode.CodeLensProvider {
           title: "✏️ Edit",
           tooltip: "Edit this remote TODO",
           command: 'remoteTodo.editTodo',
-          arguments: [document, todo.line, todo]
+          arguments: [document, lineNumber, todo]
+        });
+
+        const statusLens = new vscode.CodeLens(range, {
+          title: STATUS_LABELS[getTodoStatus(todo)],
+          tooltip: "Change the status of this remote TODO",
+          command: 'awesomeTodo.setStatus',
+          arguments: [document, lineNumber, todo]
         });
 
         const assignLens = new vscode.CodeLens(range, {
           title: "👤 Assign",
           tooltip: "Add assignee to this remote TODO",
           command: 'remoteTodo.assignTodo',
-          arguments: [document, todo.line, todo]
+          arguments: [document, lineNumber, todo]
         });
 
         const moveLens = new vscode.CodeLens(range, {
           title: "📍 Move",
           tooltip: "Move this remote TODO to another line",
           command: 'remoteTodo.moveTodo',
-          arguments: [document, todo.line, todo]
+          arguments: [document, lineNumber, todo]
         });
 
         const removeLens = new vscode.CodeLens(range, {
           title: "🗑️ Remove",
           tooltip: "Delete this remote TODO permanently",
           command: 'remoteTodo.removeTodo',
-          arguments: [document, todo.line, todo]
+          arguments: [document, lineNumber, todo]
         });
 
         // Create author information lens
@@ -139,8 +171,21 @@ class TodoCodeLensProvider implements vscode.CodeLensProvider {
           command: '' // Non-clickable display
         });
 
+        // Link to the tracker issue the TODO was imported from
+        const issueLenses: vscode.CodeLens[] = [];
+        if (todo.externalRef) {
+          const url = getExternalRefUrl(todo.externalRef);
+          issueLenses.push(new vscode.CodeLens(range, {
+            title: `🔗 ${formatExternalRef(todo.externalRef)}`,
+            tooltip: url ? `Open ${url}` : formatExternalRef(todo.externalRef),
+            command: url ? 'vscode.open' : '',
+            arguments: url ? [vscode.Uri.parse(url)] : undefined
+          }));
+        }
+
         // Add display lens, action buttons, and author info
-        codeLenses.push(displayLens, editLens, assignLens, moveLens, removeLens, authorLens);
+        // Tags like NOTE can not be assigned
+        codeLenses.push(displayLens, ...issueLenses, statusLens, editLens, ...(tag.assignable ? [assignLens] : []), moveLens, removeLens, authorLens);
       }
     }
 
@@ -153,74 +198,117 @@ class TodoCodeLensProvider implements vscode.CodeLensProvider {
   }
 }
 
+let todoStore: TodoStore;
 let decorationType: vscode.TextEditorDecorationType;
 let refreshTimeout: NodeJS.Timeout | undefined;
 let diagnosticCollection: vscode.DiagnosticCollection;
+let statusBarItem: vscode.StatusBarItem;
 let statusBarUpdateTimeout: NodeJS.Timeout | undefined;
-
-// Performance optimization: Cache for TODO data
-interface CacheEntry {
-  data: any;
-  timestamp: number;
-  ttl: number; // Time to live in milliseconds
-}
-
-class TodoCache {
-  private cache = new Map<string, CacheEntry>();
-  private readonly DEFAULT_TTL = 2000; // 2 seconds
-
-  get<T>(key: string): T | null {
-    const entry = this.cache.get(key);
-    if (!entry) return null;
-
-    if (Date.now() - entry.timestamp > entry.ttl) {
-      this.cache.delete(key);
-      return null;
-    }
-
-    return entry.data as T;
-  }
-
-  set<T>(key: string, data: T, ttl: number = this.DEFAULT_TTL): void {
-    this.cache.set(key, {
-      data,
-      timestamp: Date.now(),
-      ttl
-    });
-  }
-
-  clear(): void {
-    this.cache.clear();
-  }
-
-  // Clean up expired entries
-  cleanup(): void {
-    const now = Date.now();
-    const keysToDelete: string[] = [];
-
-    this.cache.forEach((entry, key) => {
-      if (now - entry.timestamp > entry.ttl) {
-        keysToDelete.push(key);
-      }
-    });
-
-    keysToDelete.forEach(key => this.cache.delete(key));
-  }
+let persistTimeout: NodeJS.Timeout | undefined;
+// Saved documents waiting for debouncedPersistSavedDocuments, by path
+const savedDocuments = new Map<string, vscode.TextDocument>();
+// Files whose TODO lines were shifted by edits that are not saved yet
+const unsavedLineShifts = new Set<string>();
+
+type TodoSortOrder = 'file' | 'priority' | 'dueDate';
+
+const TODO_SORT_LABELS: Record<TodoSortOrder, string> = {
+  file: 'file',
+  priority: 'priority',
+  dueDate: 'due date'
+};
+
+function sortTodos(todos: Todo[], sortBy: TodoSortOrder): Todo[] {
+  const byFile = (a: Todo, b: Todo) => a.file.localeCompare(b.file) || a.line - b.line;
+  // TODOs without due date sort last
+  const byDueDate = (a: Todo, b: Todo) => (a.dueDate || '9999-99-99').localeCompare(b.dueDate || '9999-99-99');
+  const byPriority = (a: Todo, b: Todo) => getTodoPriority(a).localeCompare(getTodoPriority(b));
+
+  return [...todos].sort((a, b) => {
+    if (sortBy === 'priority') return byPriority(a, b) || byDueDate(a, b) || byFile(a, b);
+    if (sortBy === 'dueDate') return byDueDate(a, b) || byPriority(a, b) || byFile(a, b);
+    return byFile(a, b);
+  });
 }
 
-const todoCache = new TodoCache();
-
 export function activate(context: vscode.ExtensionContext) {
+  // Every command and provider reads and writes TODOs through the store
+  todoStore = new TodoStore();
+  context.subscriptions.push(todoStore);
+  // Which remote TODOs are shown is remembered per workspace
+  todoStore.setVisibility(context.workspaceState.get<Visibility>("awesomeTodo.visibility", { mode: "mine" }));
+
   // Create diagnostic collection for TODOs
   diagnosticCollection = vscode.languages.createDiagnosticCollection('localTodos');
   context.subscriptions.push(diagnosticCollection);
 
   // Register CodeLens provider
   const codeLensProvider = new TodoCodeLensProvider();
+  context.subscriptions.push(
+    todoStore.onDidChange(() => {
+      codeLensProvider.refresh();
+      debouncedRefreshDecorations();
+      updateDiagnostics();
+      debouncedUpdateStatusBar();
+    })
+  );
   context.subscriptions.push(
     vscode.languages.registerCodeLensProvider('*', codeLensProvider)
   );
 
+  // Register TODO tree view, refreshed whenever the CodeLenses are
+  const todoTreeProvider = new TodoTreeProvider(todoStore, context.workspaceState.get<TodoGrouping>("awesomeTodo.treeGrouping", "file"));
+  const todoTreeView = vscode.window.createTreeView("awesomeTodo.todoView", {
+    treeDataProvider: todoTreeProvider,
+    showCollapseAll: true
+  });
+  context.subscriptions.push(
+    todoTreeProvider,
+    todoTreeView,
+    todoTreeProvider.onDidLoadTodos((count) => {
+      todoTreeView.badge = count > 0 ? { value: count, tooltip: `${count} TODO(s)` } : undefined;
+    }),
+    codeLensProvider.onDidChangeCodeLenses(() => todoTreeProvider.refresh()),
+    vscode.workspace.onDidChangeWorkspaceFolders(() => todoTreeProvider.refresh())
+  );
+
+  // Open remote TODOs per team member, whatever the visibility mode
+  const workloadTreeProvider = new WorkloadTreeProvider(todoStore);
+  context.subscriptions.push(
+    workloadTreeProvider,
+    vscode.window.createTreeView("awesomeTodo.workloadView", { treeDataProvider: workloadTreeProvider }),
+    vscode.workspace.onDidChangeWorkspaceFolders(() => workloadTreeProvider.refresh())
+  );
+
+  // Visibility mode in the status bar, click to switch
+  const visibilityStatusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 100);
+  visibilityStatusBarItem.command = "awesomeTodo.setVisibility";
+  visibilityStatusBarItem.tooltip = "Remote TODOs shown in the editor and the TODO view, click to switch";
+  const updateVisibilityStatusBar = () => {
+    const visibility = todoStore.getVisibility();
+    const label = visibility.mode === "person" && visibility.person ? visibility.person.name : VISIBILITY_LABELS[visibility.mode];
+    visibilityStatusBarItem.text = `$(eye) TODOs: ${label}`;
+  };
+  updateVisibilityStatusBar();
+  visibilityStatusBarItem.show();
+  context.subscriptions.push(visibilityStatusBarItem);
+
+  // TODO counts of the current file and the workspace, click to list the file's TODOs
+  statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+  statusBarItem.command = "awesomeTodo.showFileTodos";
+  statusBarItem.show();
+  context.subscriptions.push(
+    statusBarItem,
+    vscode.window.onDidChangeActiveTextEditor(() => debouncedUpdateStatusBar())
+  );
+
+  // Pick up TODO changes made outside this window, e.g. by a git pull
+  context.subscriptions.push(new TodoFileWatcher(todoStore));
+
+  // Discussion threads of remote TODOs, shown with the Comments API
+  const discussionController = new TodoDiscussionController(todoStore);
+  context.subscriptions.push(discussionController);
+
   decorationType = vscode.window.createTextEditorDecorationType({
     after: {
       contentText: "", // Will be set dynamically
@@ -234,200 +322,96 @@ export function activate(context: vscode.ExtensionContext) {
 
   vscode.languages.registerCodeActionsProvider(
     "*",
-    new TodoCodeActionProvider(),
+    new TodoCodeActionProvider(todoStore),
     {
       providedCodeActionKinds: TodoCodeActionProvider.providedCodeActionKinds,
     }
   );
 
-  // Auto-manage .gitignore for local files
-  ensureGitIgnoreEntries();
-
-  // Register Advanced Hover Provider for custom widget-like display
-  vscode.languages.registerHoverProvider('*', {
-    async provideHover(document, position, token) {
-      // Check if this line has a stored local TODO
-      const todos = await loadTodos(document.uri.fsPath);
-      const lineTodos = todos.filter(todo => todo.line === position.line);
-
-      if (lineTodos.length > 0) {
-        const todo = lineTodos[0]; // Show first TODO on this line
-
-        // Create advanced widget-like HTML content
-        const hoverContent = new vscode.MarkdownString();
-        hoverContent.supportHtml = true;
-        hoverContent.value = `
-<div style="position: relative; z-index: 1000; max-width: 400px;">
-  <div style="padding: 16px; border-radius: 12px; background: linear-gradient(135deg, #fff9c4 0%, #ffeb3b 20%, #fff8e1 100%); border: 3px solid #ff6f00; box-shadow: 0 4px 20px rgba(255, 111, 0, 0.3); margin-bottom: 8px;">
-    <div style="font-size: 18px; font-weight: bold; color: #e65100; margin-bottom: 16px; text-align: center; text-shadow: 1px 1px 2px rgba(0,0,0,0.1);">
-      🔸 Local TODO: ${todo.message}
-    </div>
-    <div style="background: rgba(255, 255, 255, 0.8); padding: 12px; border-radius: 8px; border: 1px solid #ffb74d;">
-      <div style="display: flex; justify-content: center; gap: 10px; flex-wrap: wrap;">
-        <div style="background: linear-gradient(45deg, #4caf50, #66bb6a); color: white; padding: 6px 12px; border-radius: 6px; font-size: 12px; font-weight: bold; box-shadow: 0 2px 4px rgba(76, 175, 80, 0.3); cursor: pointer;" onclick="vscode.commands.executeCommand('localTodo.editTodo', '${document.uri}', ${position.line}, ${JSON.stringify(todo).replace(/"/g, '"')})">
-          ✏️ Edit
-        </div>
-        <div style="background: linear-gradient(45deg, #2196f3, #42a5f5); color: white; padding: 6px 12px; border-radius: 6px; font-size: 12px; font-weight: bold; box-shadow: 0 2px 4px rgba(33, 150, 243, 0.3); cursor: pointer;" onclick="vscode.commands.executeCommand('localTodo.moveTodo', '${document.uri}', ${position.line}, ${JSON.stringify(todo).replace(/"/g, '"')})">
-          📍 Move
-        </div>
-        <div style="background: linear-gradient(45deg, #f44336, #ef5350); color: white; padding: 6px 12px; border-radius: 6px; font-size: 12px; font-weight: bold; box-shadow: 0 2px 4px rgba(244, 67, 54, 0.3); cursor: pointer;" onclick="vscode.commands.executeCommand('localTodo.removeTodo', '${document.uri}', ${position.line}, ${JSON.stringify(todo).replace(/"/g, '"')})">
-          🗑️ Remove
-        </div>
-      </div>
-    </div>
-  </div>
-</div>`;
-
-        const line = document.lineAt(position.line);
-        return new vscode.Hover(hoverContent, new vscode.Range(position.line, 0, position.line, line.text.length));
-      }
-
-      // Check if this line has a stored remote TODO
-      const userInfo = getGitUserInfo();
-      const userEmail = userInfo?.email || '';
-      const allRemoteTodos = await loadRemoteTodos(document.uri.fsPath);
-      const visibleRemoteTodos = filterVisibleRemoteTodos(allRemoteTodos, userEmail).filter(todo => todo.line === position.line);
-
-      if (visibleRemoteTodos.length > 0) {
-        const todo = visibleRemoteTodos[0]; // Show first remote TODO on this line
-        const authorName = todo.author?.name || 'Unknown';
-        const assigneeNames = todo.assignees?.map(a => a.name).join(', ') || 'None';
-
-        // Create advanced widget-like HTML content for remote TODOs
-        const hoverContent = new vscode.MarkdownString();
-        hoverContent.supportHtml = true;
-        hoverContent.value = `
-<div style="position: relative; z-index: 1000; max-width: 400px;">
-  <div style="padding: 16px; border-radius: 12px; background: linear-gradient(135deg, #e3f2fd 0%, #bbdefb 20%, #90caf9 100%); border: 3px solid #1976d2; box-shadow: 0 4px 20px rgba(25, 118, 210, 0.3); margin-bottom: 8px;">
-    <div style="font-size: 18px; font-weight: bold; color: #0d47a1; margin-bottom: 8px; text-align: center; text-shadow: 1px 1px 2px rgba(0,0,0,0.1);">
-      🌐 Remote TODO: ${todo.message}
-    </div>
-    <div style="font-size: 14px; color: #1565c0; margin-bottom: 16px; text-align: center;">
-      👤 Author: ${authorName} | 👥 Assignees: ${assigneeNames}
-    </div>
-    <div style="background: rgba(255, 255, 255, 0.8); padding: 12px; border-radius: 8px; border: 1px solid #64b5f6;">
-      <div style="display: flex; justify-content: center; gap: 10px; flex-wrap: wrap;">
-        <div style="background: linear-gradient(45deg, #4caf50, #66bb6a); color: white; padding: 6px 12px; border-radius: 6px; font-size: 12px; font-weight: bold; box-shadow: 0 2px 4px rgba(76, 175, 80, 0.3); cursor: pointer;" onclick="vscode.commands.executeCommand('remoteTodo.editTodo', '${document.uri}', ${position.line}, ${JSON.stringify(todo).replace(/"/g, '"')})">
-          ✏️ Edit
-        </div>
-        <div style="background: linear-gradient(45deg, #2196f3, #42a5f5); color: white; padding: 6px 12px; border-radius: 6px; font-size: 12px; font-weight: bold; box-shadow: 0 2px 4px rgba(33, 150, 243, 0.3); cursor: pointer;" onclick="vscode.commands.executeCommand('remoteTodo.assignTodo', '${document.uri}', ${position.line}, ${JSON.stringify(todo).replace(/"/g, '"')})">
-          👤 Assign
-        </div>
-        <div style="background: linear-gradient(45deg, #ff9800, #ffb74d); color: white; padding: 6px 12px; border-radius: 6px; font-size: 12px; font-weight: bold; box-shadow: 0 2px 4px rgba(255, 152, 0, 0.3); cursor: pointer;" onclick="vscode.commands.executeCommand('remoteTodo.moveTodo', '${document.uri}', ${position.line}, ${JSON.stringify(todo).replace(/"/g, '"')})">
-          📍 Move
-        </div>
-        <div style="background: linear-gradient(45deg, #f44336, #ef5350); color: white; padding: 6px 12px; border-radius: 6px; font-size: 12px; font-weight: bold; box-shadow: 0 2px 4px rgba(244, 67, 54, 0.3); cursor: pointer;" onclick="vscode.commands.executeCommand('remoteTodo.removeTodo', '${document.uri}', ${position.line}, ${JSON.stringify(todo).replace(/"/g, '"')})">
-          🗑️ Remove
-        </div>
-      </div>
-    </div>
-  </div>
-</div>`;
-
-        const line = document.lineAt(position.line);
-        return new vscode.Hover(hoverContent, new vscode.Range(position.line, 0, position.line, line.text.length));
-      }
-
-      return null;
+  // Git runs the compiled merge driver with plain Node, a registered one is refreshed after extension updates
+  const mergeDriverScript = context.asAbsolutePath(path.join("out", "mergeDriver.js"));
+  const refreshMergeDriver = (folder: vscode.WorkspaceFolder) => {
+    try {
+      updateMergeDriver(folder.uri.fsPath, mergeDriverScript);
+    } catch (error) {
+      vscode.window.showWarningMessage(`Failed to update the merge driver of ${folder.name}, run "Register Git Merge Driver for Remote TODOs" again: ${error}`);
     }
+  };
+
+  // Auto-manage .gitignore for local files, in every folder including ones added later
+  (vscode.workspace.workspaceFolders || []).forEach(folder => {
+    ensureGitIgnoreEntries(folder);
+    refreshMergeDriver(folder);
   });
+  context.subscriptions.push(vscode.workspace.onDidChangeWorkspaceFolders(event => {
+    event.added.forEach(folder => {
+      ensureGitIgnoreEntries(folder);
+      refreshMergeDriver(folder);
+    });
+  }));
+
+  // Hover cards with the details and actions of every TODO on a line
+  context.subscriptions.push(vscode.languages.registerHoverProvider('*', new TodoHoverProvider(todoStore)));
 
   let disposable = vscode.commands.registerCommand(
     "localTodo.convertTodo",
     async (document: vscode.TextDocument, lineNumber: number, text: string) => {
       const file = document.uri.fsPath;
-      const line = document.lineAt(lineNumber);
-      const lineText = line.text;
 
-      // Extract all TODO comments from the line
-      const todoRegex =
-        /((\/\/)|#)\s*TODO[:\-]?\s*(.*?)(?=(\/\/|#)\s*TODO[:\-]?|$)/gi;
+      // Extract all TODO comments from the line, using the language's comment syntax
+      const comments = findTodoComments(document, lineNumber);
       const todos: Todo[] = [];
-      let match;
 
-      while ((match = todoRegex.exec(lineText)) !== null) {
-        const message = match[3].trim();
-        if (message) {
+      for (const comment of comments) {
+        const metadata = parseTodoMetadata(comment.message);
+        if (metadata.message) {
           const todo: Todo = {
             file,
             line: lineNumber, // Keep original line number
-            column: match.index,
+            column: comment.column,
             type: "local",
-            message,
-            id: `${file}:${lineNumber}:${match.index}`,
+            kind: comment.tag,
+            ...metadata,
+            id: `${toWorkspaceRelativePath(file)}:${lineNumber}:${comment.column}`,
           };
           todos.push(todo);
         }
       }
 
       if (todos.length === 0) {
-        // Fallback for single TODO if regex doesn't match
-        const message = text.replace(/^((\/\/)|#)\s*TODO[:-]?\s*/i, "").trim();
-        const todo: Todo = {
-          file,
-          line: lineNumber, // Keep original line number
-          type: "local",
-          message,
-          id: `${file}:${lineNumber}:0`,
-        };
-        todos.push(todo);
+        vscode.window.showErrorMessage("No TODO message found.");
+        return;
       }
 
-      // Load existing todos and add new ones
-      const existingTodos = await loadTodos(file);
-      const updatedTodos = [...existingTodos, ...todos];
-      await saveTodos(updatedTodos, file);
+      // Add the new todos to the existing ones
+      await todoStore.update('local', file, (existingTodos) => appendTodos(existingTodos, todos));
 
-      // Clear cache for this file
-      todoCache.clear();
-
-      // Smart line removal: remove entire line if it only contains the TODO comment
+      // Smart line removal: remove entire line if it only contains TODO comments,
+      // otherwise remove only the TODO comments and keep the rest of the line
       const edit = new vscode.WorkspaceEdit();
-      const originalLineText = line.text;
-
-      // Check if line is empty except for the TODO comment
-      const commentRegex = /^(\s*)((\/\/)|#)\s*TODO[:\-]?.*$/i;
-      const isOnlyTodoComment = commentRegex.test(originalLineText.trim());
-
-      if (isOnlyTodoComment) {
-        // Remove the entire line if it only contains the TODO comment
-        edit.delete(document.uri, line.rangeIncludingLineBreak || line.range);
-      } else {
-        // Remove only the TODO comment part, keep the rest of the line
-        const todoCommentMatch = originalLineText.match(/((\/\/)|#)\s*TODO[:\-]?.*$/i);
-        if (todoCommentMatch) {
-          const commentStart = originalLineText.indexOf(todoCommentMatch[0]);
-          const commentEnd = commentStart + todoCommentMatch[0].length;
-          const rangeToDelete = new vscode.Range(lineNumber, commentStart, lineNumber, commentEnd);
-          edit.delete(document.uri, rangeToDelete);
-        }
-      }
+      removeTodoComments(edit, document, lineNumber, comments);
 
       await vscode.workspace.applyEdit(edit);
-
-      // Refresh decorations
-      debouncedRefreshDecorations();
+      await refreshAnchors(document);
     }
   );
 
   let listDisposable = vscode.commands.registerCommand(
     "localTodo.listTodos",
     async () => {
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-      if (!workspaceFolder) {
-        vscode.window.showErrorMessage("No workspace folder found.");
-        return;
-      }
+      const workspaceFolder = await getActiveWorkspaceFolder("Select the workspace folder whose local TODOs to list");
+      if (!workspaceFolder) return;
 
-      const todos = await loadTodos();
+      const todos = await todoStore.getLocalTodos(workspaceFolder.uri.fsPath);
       if (todos.length === 0) {
         vscode.window.showInformationMessage("No local TODOs found.");
         return;
       }
 
       const items = todos.map((todo) => ({
-        label: `${vscode.workspace.asRelativePath(todo.file)}:${todo.line + 1}`,
-        description: todo.message,
+        label: formatTodoLocation(todo),
+        description: todo.orphaned ? `⚠️ ${todo.message} (orphaned)` : todo.message,
+        detail: `${STATUS_LABELS[getTodoStatus(todo)]} · ${formatTodoDetails(todo)}`,
         todo,
       }));
 
@@ -445,21 +429,56 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
-  let listAllTodosDisposable = vscode.commands.registerCommand(
-    "awesomeTodo.listAllTodos",
+  let showFileTodosDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.showFileTodos",
     async () => {
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-      if (!workspaceFolder) {
-        vscode.window.showErrorMessage("No workspace folder found.");
+      const document = vscode.window.activeTextEditor?.document;
+      if (!document || document.uri.scheme !== "file") {
+        // Nothing to filter by, list the whole workspace instead
+        await vscode.commands.executeCommand("awesomeTodo.listAllTodos");
+        return;
+      }
+
+      const file = document.uri.fsPath;
+      const localTodos = await todoStore.getFileTodos('local', file);
+      const remoteTodos = todoStore.filterVisibleTodos(await todoStore.getFileTodos('remote', file), file);
+      const todos = filterEditorTodos([...localTodos, ...remoteTodos]).sort((a, b) => a.line - b.line);
+      if (todos.length === 0) {
+        vscode.window.showInformationMessage(`No TODOs in ${vscode.workspace.asRelativePath(document.uri)}.`);
         return;
       }
 
+      const items = todos.map((todo) => ({
+        label: `Line ${todo.line + 1}`,
+        description: todo.orphaned ? `⚠️ ${todo.message} (orphaned)` : todo.message,
+        detail: `${todo.type === 'remote' ? 'Remote' : 'Local'} · ${STATUS_LABELS[getTodoStatus(todo)]} · ${formatTodoDetails(todo)}`,
+        todo,
+      }));
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: `TODOs in ${vscode.workspace.asRelativePath(document.uri)}`,
+        matchOnDescription: true,
+        matchOnDetail: true
+      });
+
+      if (selected) {
+        const position = new vscode.Position(selected.todo.line, 0);
+        await vscode.window.showTextDocument(document, {
+          selection: new vscode.Range(position, position),
+        });
+      }
+    }
+  );
+
+  let listAllTodosDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.listAllTodos",
+    async () => {
+      const workspaceFolder = await getActiveWorkspaceFolder("Select the workspace folder whose TODOs to list");
+      if (!workspaceFolder) return;
+
       // Load both local and remote TODOs
-      const localTodos = await loadTodos();
-      const userInfo = getGitUserInfo();
-      const userEmail = userInfo?.email || '';
-      const allRemoteTodos = await loadRemoteTodos();
-      const visibleRemoteTodos = filterVisibleRemoteTodos(allRemoteTodos, userEmail);
+      const localTodos = await todoStore.getLocalTodos(workspaceFolder.uri.fsPath);
+      const visibleRemoteTodos = await todoStore.getVisibleRemoteTodos(workspaceFolder.uri.fsPath);
 
       const allTodos = [...localTodos, ...visibleRemoteTodos];
 
@@ -468,32 +487,358 @@ export function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      const items = allTodos.map((todo) => {
-        const isRemote = todo.type === 'remote';
-        const authorName = isRemote ? (todo.author?.name || 'Unknown') : '';
-        const label = `${vscode.workspace.asRelativePath(todo.file)}:${todo.line + 1}`;
-        const description = isRemote ? `${todo.message} (by ${authorName})` : todo.message;
-        const detail = isRemote ? `Remote TODO - Assignees: ${todo.assignees?.map(a => a.name).join(', ') || 'None'}` : 'Local TODO';
+      let sortBy: TodoSortOrder = 'file';
+      let filter: { label: string; matches: (todo: Todo) => boolean } | undefined;
+
+      while (true) {
+        const shownTodos = sortTodos(filter ? allTodos.filter(filter.matches) : allTodos, sortBy);
+        const items: { label: string; description?: string; detail?: string; todo?: Todo }[] = shownTodos.map((todo) => {
+          const isRemote = todo.type === 'remote';
+          const authorName = isRemote ? (todo.author?.name || 'Unknown') : '';
+          const label = formatTodoLocation(todo);
+          const message = todo.orphaned ? `⚠️ ${todo.message} (orphaned)` : todo.message;
+          const description = isRemote ? `${message} (by ${authorName})` : message;
+          const status = `${STATUS_LABELS[getTodoStatus(todo)]} · ${formatTodoDetails(todo)}`;
+          const detail = isRemote ? `Remote TODO - ${status} - Assignees: ${todo.assignees?.map(a => a.name).join(', ') || 'None'}` : `Local TODO - ${status}`;
+
+          return {
+            label,
+            description,
+            detail,
+            todo,
+          };
+        });
+
+        items.unshift({
+          label: "⚙️ Sort & Filter...",
+          description: `Sorted by ${TODO_SORT_LABELS[sortBy]}${filter ? `, ${filter.label}` : ''} (${shownTodos.length} of ${allTodos.length})`,
+        });
+
+        const selected = await vscode.window.showQuickPick(items, {
+          placeHolder: "Select a TODO to view",
+          matchOnDescription: true,
+          matchOnDetail: true
+        });
+
+        if (!selected) return;
+
+        if (!selected.todo) {
+          const labels = Array.from(new Set(allTodos.flatMap(todo => todo.labels || []))).sort();
+          const options: { label: string; action: string }[] = [
+            ...(Object.keys(TODO_SORT_LABELS) as TodoSortOrder[]).map(order => ({ label: `Sort by ${TODO_SORT_LABELS[order]}`, action: `sort:${order}` })),
+            { label: "Only overdue TODOs", action: "overdue" },
+            ...PRIORITIES.map(priority => ({ label: `Only ${PRIORITY_LABELS[priority]}`, action: `priority:${priority}` })),
+            ...labels.map(label => ({ label: `Only 🏷️ ${label}`, action: `label:${label}` })),
+            ...(filter ? [{ label: "Clear filter", action: "clear" }] : [])
+          ];
+
+          const option = await vscode.window.showQuickPick(options, { placeHolder: "Sort or filter TODOs" });
+          if (option) {
+            const [action, value] = option.action.split(/:(.*)/);
+            if (action === 'sort') {
+              sortBy = value as TodoSortOrder;
+            } else if (action === 'overdue') {
+              filter = { label: 'overdue only', matches: (todo) => isTodoOverdue(todo) };
+            } else if (action === 'priority') {
+              filter = { label: `${value} only`, matches: (todo) => getTodoPriority(todo) === value };
+            } else if (action === 'label') {
+              filter = { label: `#${value} only`, matches: (todo) => (todo.labels || []).includes(value) };
+            } else if (action === 'clear') {
+              filter = undefined;
+            }
+          }
+          continue;
+        }
+
+        const uri = vscode.Uri.file(selected.todo.file);
+        const position = new vscode.Position(selected.todo.line, 0);
+        await vscode.window.showTextDocument(uri, {
+          selection: new vscode.Range(position, position),
+        });
+        return;
+      }
+    }
+  );
+
+  let exportTodosDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.exportTodos",
+    async () => {
+      const workspaceFolder = await getActiveWorkspaceFolder("Select the workspace folder whose TODOs to export");
+      if (!workspaceFolder) return;
+
+      const format = await vscode.window.showQuickPick(
+        (Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(value => ({ label: EXPORT_FORMAT_LABELS[value], value })),
+        { placeHolder: "Select the export format" }
+      );
+      if (!format) return;
+
+      const scope = await vscode.window.showQuickPick(
+        [
+          { label: "My TODOs", description: "Local TODOs and the remote TODOs you see", allRemote: false },
+          { label: "All remote TODOs", description: "Every remote TODO of the team", allRemote: true }
+        ],
+        { placeHolder: "Select the TODOs to export" }
+      );
+      if (!scope) return;
+
+      const folderPath = workspaceFolder.uri.fsPath;
+      const todos = scope.allRemote
+        ? await todoStore.getRemoteTodos(folderPath)
+        : [...await todoStore.getLocalTodos(folderPath), ...await todoStore.getVisibleRemoteTodos(folderPath)];
+
+      if (todos.length === 0) {
+        vscode.window.showInformationMessage("No TODOs found.");
+        return;
+      }
+
+      // Assignees of the TODOs being exported, by email
+      const assignees = new Map<string, User>();
+      todos.forEach(todo => todo.assignees?.forEach(assignee => assignees.set(assignee.email, assignee)));
+      const assignee = await vscode.window.showQuickPick(
+        [
+          { label: "Anyone", email: undefined as string | undefined },
+          { label: "Unassigned", email: '' },
+          ...Array.from(assignees.values())
+            .sort((a, b) => a.name.localeCompare(b.name))
+            .map(user => ({ label: user.name, description: user.email, email: user.email as string | undefined }))
+        ],
+        { placeHolder: "Only export TODOs assigned to" }
+      );
+      if (!assignee) return;
+
+      const pathGlob = await vscode.window.showInputBox({
+        prompt: "Only export TODOs in files matching this glob (leave empty for all files)",
+        placeHolder: "src/**/*.ts"
+      });
+      if (pathGlob === undefined) return;
+
+      const filter: ExportFilter = { assignee: assignee.email, pathGlob };
+      const exportedTodos = filterExportTodos(todos, filter);
+      if (exportedTodos.length === 0) {
+        vscode.window.showInformationMessage("No TODOs match the filter.");
+        return;
+      }
+
+      const extension = EXPORT_FILE_EXTENSIONS[format.value];
+      const target = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.joinPath(workspaceFolder.uri, `todos.${extension}`),
+        filters: { [format.label]: [extension] }
+      });
+      if (!target) return;
+
+      try {
+        const title = scope.allRemote ? "Remote TODOs" : "TODOs";
+        const content = formatExport(toExportedTodos(exportedTodos, path.dirname(target.fsPath)), format.value, title);
+        await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to export TODOs: ${error}`);
+        return;
+      }
+
+      const action = await vscode.window.showInformationMessage(
+        `Exported ${exportedTodos.length} TODO${exportedTodos.length === 1 ? '' : 's'} to ${vscode.workspace.asRelativePath(target)}.`,
+        "Open"
+      );
+      if (action === "Open") {
+        await vscode.window.showTextDocument(target);
+      }
+    }
+  );
+
+  let editDetailsDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.editDetails",
+    async (document?: vscode.TextDocument, lineNumber?: number, todo?: Todo) => {
+      // Invoked from the command palette: pick the TODO first
+      if (!todo) {
+        const localTodos = await todoStore.getLocalTodos();
+        const visibleRemoteTodos = await todoStore.getVisibleRemoteTodos();
+
+        const todoItems = [...localTodos, ...visibleRemoteTodos].map((t) => ({
+          label: formatTodoLocation(t),
+          description: t.message,
+          detail: `${t.type === 'remote' ? 'Remote' : 'Local'} TODO - ${formatTodoDetails(t)}`,
+          todo: t,
+        }));
+
+        if (todoItems.length === 0) {
+          vscode.window.showInformationMessage("No TODOs found.");
+          return;
+        }
+
+        const selectedTodo = await vscode.window.showQuickPick(todoItems, {
+          placeHolder: "Select a TODO to edit its priority, due date and labels",
+          matchOnDescription: true
+        });
+        if (!selectedTodo) return;
+        todo = selectedTodo.todo;
+      }
+
+      const priorityItems = PRIORITIES.map((priority) => ({
+        label: PRIORITY_LABELS[priority],
+        description: priority === getTodoPriority(todo!) ? "Current" : undefined,
+        priority
+      }));
+      const selectedPriority = await vscode.window.showQuickPick(priorityItems, {
+        placeHolder: "Select priority"
+      });
+      if (!selectedPriority) return;
+
+      const dueDate = await vscode.window.showInputBox({
+        prompt: "Enter due date (leave empty for none)",
+        placeHolder: "YYYY-MM-DD",
+        value: todo.dueDate || "",
+        validateInput: (value) => {
+          if (value.trim() && !isValidDueDate(value.trim())) {
+            return "Please enter a valid date in YYYY-MM-DD format";
+          }
+          return null;
+        }
+      });
+      if (dueDate === undefined) return;
+
+      const labelsInput = await vscode.window.showInputBox({
+        prompt: "Enter labels separated by commas (leave empty for none)",
+        placeHolder: "e.g., backend, tech-debt",
+        value: (todo.labels || []).join(", ")
+      });
+      if (labelsInput === undefined) return;
+
+      const labels = Array.from(new Set(labelsInput.split(",").map(label => label.trim().replace(/^#/, "")).filter(Boolean)));
+
+      const isRemote = todo.type === 'remote';
+      let updatedTodo: Todo | undefined;
+      await todoStore.update(todo.type, todo.file, (todos) => {
+        const todoIndex = todos.findIndex(t => t.id === todo!.id);
+        if (todoIndex === -1) return undefined;
+
+        const { dueDate: previousDueDate, labels: previousLabels, ...rest } = todos[todoIndex];
+        updatedTodo = {
+          ...rest,
+          priority: selectedPriority.priority,
+          ...(dueDate.trim() ? { dueDate: dueDate.trim() } : {}),
+          ...(labels.length > 0 ? { labels } : {}),
+          ...(isRemote ? { updatedAt: new Date().toISOString() } : {})
+        };
+        todos[todoIndex] = updatedTodo;
+        return todos;
+      });
+      if (!updatedTodo) return;
+
+      vscode.window.showInformationMessage(`TODO "${todo.message}" updated: ${formatTodoDetails(updatedTodo)}`);
+    }
+  );
+
+  let setStatusDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.setStatus",
+    async (document?: vscode.TextDocument, lineNumber?: number, todo?: Todo) => {
+      // Invoked from the command palette: pick the TODO first
+      if (!todo) {
+        const localTodos = await todoStore.getLocalTodos();
+        const visibleRemoteTodos = await todoStore.getVisibleRemoteTodos();
+
+        const todoItems = [...localTodos, ...visibleRemoteTodos].map((t) => ({
+          label: formatTodoLocation(t),
+          description: t.message,
+          detail: `${t.type === 'remote' ? 'Remote' : 'Local'} TODO - ${STATUS_LABELS[getTodoStatus(t)]}`,
+          todo: t,
+        }));
+
+        if (todoItems.length === 0) {
+          vscode.window.showInformationMessage("No TODOs found.");
+          return;
+        }
+
+        const selectedTodo = await vscode.window.showQuickPick(todoItems, {
+          placeHolder: "Select a TODO to change its status",
+          matchOnDescription: true
+        });
+        if (!selectedTodo) return;
+        todo = selectedTodo.todo;
+      }
+
+      const isRemote = todo.type === 'remote';
+      const userInfo = todoStore.getUser(todo.file);
+      if (isRemote && !userInfo) {
+        vscode.window.showErrorMessage("Git user information not available. Please configure git first.");
+        return;
+      }
+
+      const currentStatus = getTodoStatus(todo);
+      const statusOptions: { label: string; description?: string; status?: TodoStatus }[] = STATUS_TRANSITIONS[currentStatus].map((status) => ({
+        label: STATUS_LABELS[status],
+        description: status === 'done' ? "Hidden from the editor once completed" : undefined,
+        status
+      }));
+      if (todo.history && todo.history.length > 0) {
+        statusOptions.push({ label: "📜 View History", description: `${todo.history.length} change(s)` });
+      }
+
+      const selectedOption = await vscode.window.showQuickPick(statusOptions, {
+        placeHolder: `Current status: ${STATUS_LABELS[currentStatus]}`
+      });
+      if (!selectedOption) return;
+
+      if (!selectedOption.status) {
+        const historyList = (todo.history || []).map((entry) =>
+          `${new Date(entry.at).toLocaleString()} - ${entry.by?.name || 'Unknown'} changed ${entry.field} from ${entry.from || 'none'} to ${entry.to}`
+        ).join('\n');
+        vscode.window.showInformationMessage(`History of "${todo.message}":\n${historyList}`, { modal: true });
+        return;
+      }
+
+      const status = selectedOption.status;
+      let currentStatusOnDisk: TodoStatus | undefined;
+      const saved = await todoStore.update(todo.type, todo.file, (todos) => {
+        const stored = todos.find(t => t.id === todo!.id);
+        if (!stored) return undefined;
+
+        currentStatusOnDisk = getTodoStatus(stored);
+        return setTodoStatus(stored, status, userInfo) ? todos : undefined;
+      });
+
+      if (!saved) {
+        if (currentStatusOnDisk) {
+          vscode.window.showErrorMessage(`Cannot change status from ${STATUS_LABELS[currentStatusOnDisk]} to ${STATUS_LABELS[status]}.`);
+        }
+        return;
+      }
+
+      vscode.window.showInformationMessage(`TODO "${todo.message}" is now ${STATUS_LABELS[selectedOption.status]}.`);
+    }
+  );
+
+  let listCompletedDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.listCompletedTodos",
+    async () => {
+      const localTodos = await todoStore.getLocalTodos();
+      const visibleRemoteTodos = await todoStore.getVisibleRemoteTodos();
+
+      const completedTodos = [...localTodos, ...visibleRemoteTodos].filter(todo => getTodoStatus(todo) === 'done');
+      if (completedTodos.length === 0) {
+        vscode.window.showInformationMessage("No completed TODOs found.");
+        return;
+      }
 
+      const items = completedTodos.map((todo) => {
+        const completion = [...(todo.history || [])].reverse().find(entry => entry.field === 'status' && entry.to === 'done');
+        const completedBy = completion ? ` by ${completion.by?.name || 'Unknown'} on ${new Date(completion.at).toLocaleDateString()}` : '';
         return {
-          label,
-          description,
-          detail,
+          label: formatTodoLocation(todo),
+          description: todo.message,
+          detail: `${todo.type === 'remote' ? 'Remote' : 'Local'} TODO - Completed${completedBy}`,
           todo,
         };
       });
 
       const selected = await vscode.window.showQuickPick(items, {
-        placeHolder: "Select a TODO to view",
+        placeHolder: "Select a completed TODO to reopen or view",
         matchOnDescription: true
       });
 
       if (selected) {
         const uri = vscode.Uri.file(selected.todo.file);
-        const position = new vscode.Position(selected.todo.line, 0);
-        await vscode.window.showTextDocument(uri, {
-          selection: new vscode.Range(position, position),
-        });
+        const document = await vscode.workspace.openTextDocument(uri);
+        await vscode.commands.executeCommand("awesomeTodo.setStatus", document, selected.todo.line, selected.todo);
       }
     }
   );
@@ -501,18 +846,13 @@ export function activate(context: vscode.ExtensionContext) {
   let removeDisposable = vscode.commands.registerCommand(
     "localTodo.removeTodo",
     async (document: vscode.TextDocument, lineNumber: number, todo: Todo) => {
-      // Remove the specific TODO directly using file and line (same as edit function)
+      // Remove exactly this TODO, another one on the same line may have the same message.
+      // TODOs stored before ids existed are matched by their line and message.
       const file = document.uri.fsPath;
-      const todos = await loadTodos(file);
-      const updatedTodos = todos.filter(
-        (t) => !(t.file === file && t.line === lineNumber && t.message === todo.message)
-      );
-      await saveTodos(updatedTodos, file);
-
-      // Refresh CodeLens, text decorations, and diagnostics immediately
-      codeLensProvider.refresh();
-      refreshDecorations();
-      updateDiagnostics();
+      await todoStore.update('local', file, (todos) => todos.filter((t) => todo.id
+        ? t.id !== todo.id
+        : !(t.file === file && t.line === todo.line && t.message === todo.message)
+      ));
 
       vscode.window.showInformationMessage(`TODO "${todo.message}" removed.`);
     }
@@ -524,22 +864,22 @@ export function activate(context: vscode.ExtensionContext) {
       const line = document.lineAt(lineNumber);
       const indentMatch = /^(\s*)/.exec(line.text);
       const indent = indentMatch ? indentMatch[1] : "";
-      const commentPrefix = document.languageId === "python" ? "#" : "//";
-      const todoComment = `${indent}${commentPrefix} TODO: ${todo.message}`;
+      const metadata = formatTodoMetadata(todo);
+      const todoComment = `${indent}${formatTodoComment(document.languageId, `${todo.message}${metadata ? ` ${metadata}` : ""}`, todo.kind)}`;
+
+      // Remove the todo from JSON storage first, inserting the comment shifts the stored lines.
+      // Other TODOs on the same line stay, TODOs stored before ids existed are matched by line and message.
+      const file = document.uri.fsPath;
+      await todoStore.update('local', file, (todos) => todos.filter((t) => todo.id
+        ? t.id !== todo.id
+        : !(t.file === file && t.line === todo.line && t.message === todo.message)
+      ));
 
       // Insert the permanent comment
       const edit = new vscode.WorkspaceEdit();
       edit.insert(document.uri, line.range.start, todoComment + "\n");
       await vscode.workspace.applyEdit(edit);
 
-      // Remove the todo from JSON storage
-      const file = document.uri.fsPath;
-      const todos = await loadTodos(file);
-      const updatedTodos = todos.filter(
-        (t) => !(t.file === file && t.line === lineNumber)
-      );
-      await saveTodos(updatedTodos, file);
-
       // Position cursor for editing
       const position = new vscode.Position(lineNumber, todoComment.length);
       const editor = vscode.window.activeTextEditor;
@@ -547,21 +887,13 @@ export function activate(context: vscode.ExtensionContext) {
         editor.selection = new vscode.Selection(position, position);
         editor.revealRange(new vscode.Range(position, position));
       }
-
-      // Refresh CodeLens, text decorations, and diagnostics immediately
-      codeLensProvider.refresh();
-      refreshDecorations();
-      updateDiagnostics();
     }
   );
 
   let editTodosInFileDisposable = vscode.commands.registerCommand(
     "localTodo.editTodosInFile",
     async (document: vscode.TextDocument) => {
-      const todos = await loadTodos(document.uri.fsPath);
-      const fileTodos = todos.filter(
-        (todo) => todo.file === document.uri.fsPath
-      );
+      const fileTodos = await todoStore.getFileTodos('local', document.uri.fsPath);
 
       if (fileTodos.length === 0) {
         vscode.window.showInformationMessage(
@@ -656,19 +988,17 @@ export function activate(context: vscode.ExtensionContext) {
         const newLineNumber = parseInt(input) - 1; // Convert to 0-based
 
         // Update the todo's line number
-        const file = document.uri.fsPath;
-        const todos = await loadTodos(file);
-        const todoIndex = todos.findIndex(t => t.id === todo.id);
-
-        if (todoIndex !== -1) {
-          todos[todoIndex].line = newLineNumber;
-          await saveTodos(todos, file);
-
-          // Refresh CodeLens, text decorations, and diagnostics immediately
-          codeLensProvider.refresh();
-          refreshDecorations();
-          updateDiagnostics();
+        const moved = await todoStore.update('local', document.uri.fsPath, (todos) => {
+          const stored = todos.find(t => t.id === todo.id);
+          if (!stored) return undefined;
+
+          stored.line = newLineNumber;
+          stored.anchor = createAnchor(getDocumentLines(document), newLineNumber);
+          delete stored.orphaned;
+          return todos;
+        });
 
+        if (moved) {
           vscode.window.showInformationMessage(`TODO moved to line ${newLineNumber + 1}`);
         }
       }
@@ -679,19 +1009,18 @@ export function activate(context: vscode.ExtensionContext) {
   let remoteConvertDisposable = vscode.commands.registerCommand(
     "remoteTodo.convertTodo",
     async (document: vscode.TextDocument, lineNumber: number, text: string) => {
-      const userInfo = getGitUserInfo();
+      const file = document.uri.fsPath;
+      const userInfo = todoStore.getUser(file);
       if (!userInfo) {
         vscode.window.showErrorMessage("Git user information not available. Please configure git first.");
         return;
       }
 
-      const file = document.uri.fsPath;
-      const line = document.lineAt(lineNumber);
-      const lineText = line.text;
-
-      // Extract TODO message
-      const message = text.replace(/^((\/\/)|#)\s*TODO[:-]?\s*/i, "").trim();
-      if (!message) {
+      // Extract TODO message and inline priority, due date and labels
+      const [comment] = findTodoComments(document, lineNumber);
+      const metadata = parseTodoMetadata(comment?.message || "");
+      const message = metadata.message;
+      if (!comment || !message) {
         vscode.window.showErrorMessage("No TODO message found.");
         return;
       }
@@ -701,41 +1030,24 @@ export function activate(context: vscode.ExtensionContext) {
         file,
         line: lineNumber,
         type: "remote",
-        message,
-        id: `remote-${file}:${lineNumber}:${Date.now()}`,
+        kind: comment.tag,
+        ...metadata,
+        id: `remote-${toWorkspaceRelativePath(file)}:${lineNumber}:${Date.now()}`,
         author: userInfo,
-        assignees: [userInfo], // Author is also the first assignee
+        assignees: getTagDefinition(comment.tag).assignable ? [userInfo] : [], // Author is also the first assignee
         createdAt: now,
         updatedAt: now,
       };
 
-      // Load existing remote todos and add new one
-      const existingTodos = await loadRemoteTodos(file);
-      const updatedTodos = [...existingTodos, todo];
-      await saveRemoteTodos(updatedTodos, file);
-
-      // Clear cache for this file
-      todoCache.clear();
+      // Add the new todo to the existing remote todos
+      await todoStore.update('remote', file, (existingTodos) => [...existingTodos, todo]);
 
       // Remove the TODO comment from code
       const edit = new vscode.WorkspaceEdit();
-      const commentRegex = /^(\s*)((\/\/)|#)\s*TODO[:\-]?.*$/i;
-      if (commentRegex.test(line.text.trim())) {
-        edit.delete(document.uri, line.rangeIncludingLineBreak || line.range);
-      } else {
-        const todoCommentMatch = lineText.match(/((\/\/)|#)\s*TODO[:\-]?.*$/i);
-        if (todoCommentMatch) {
-          const commentStart = lineText.indexOf(todoCommentMatch[0]);
-          const commentEnd = commentStart + todoCommentMatch[0].length;
-          const rangeToDelete = new vscode.Range(lineNumber, commentStart, lineNumber, commentEnd);
-          edit.delete(document.uri, rangeToDelete);
-        }
-      }
+      removeTodoComments(edit, document, lineNumber, [comment]);
 
       await vscode.workspace.applyEdit(edit);
-
-      // Refresh CodeLens
-      codeLensProvider.refresh();
+      await refreshAnchors(document);
 
       vscode.window.showInformationMessage(`Remote TODO "${message}" created.`);
     }
@@ -744,17 +1056,22 @@ export function activate(context: vscode.ExtensionContext) {
   let remoteAddDisposable = vscode.commands.registerCommand(
     "remoteTodo.addTodo",
     async () => {
-      const userInfo = getGitUserInfo();
+      // The author is the git user of the repository the active file belongs to
+      const userInfo = todoStore.getUser(vscode.window.activeTextEditor?.document.uri.fsPath);
       if (!userInfo) {
         vscode.window.showErrorMessage("Git user information not available. Please configure git first.");
         return;
       }
 
-      const message = await vscode.window.showInputBox({
-        prompt: "Enter the remote TODO message",
-        placeHolder: "e.g., Implement user authentication",
+      const input = await vscode.window.showInputBox({
+        prompt: "Enter the remote TODO message (a leading tag like FIXME:, [P0]-[P3], due:YYYY-MM-DD and #labels are optional)",
+        placeHolder: "e.g., Implement user authentication [P1] due:2025-12-01 #backend",
       });
 
+      if (!input) return;
+      const { kind, text } = parseTodoKind(input);
+      const metadata = parseTodoMetadata(text);
+      const message = metadata.message;
       if (!message) return;
 
       const editor = vscode.window.activeTextEditor;
@@ -771,22 +1088,17 @@ export function activate(context: vscode.ExtensionContext) {
         file,
         line: lineNumber,
         type: "remote",
-        message,
-        id: `remote-${file}:${lineNumber}:${Date.now()}`,
+        kind,
+        ...metadata,
+        id: `remote-${toWorkspaceRelativePath(file)}:${lineNumber}:${Date.now()}`,
+        anchor: createAnchor(getDocumentLines(editor.document), lineNumber),
         author: userInfo,
-        assignees: [userInfo],
+        assignees: getTagDefinition(kind).assignable ? [userInfo] : [],
         createdAt: now,
         updatedAt: now,
       };
 
-      const existingTodos = await loadRemoteTodos(file);
-      const updatedTodos = [...existingTodos, todo];
-      await saveRemoteTodos(updatedTodos, file);
-
-      // Clear cache for this file
-      todoCache.clear();
-
-      codeLensProvider.refresh();
+      await todoStore.update('remote', file, (existingTodos) => [...existingTodos, todo]);
       vscode.window.showInformationMessage(`Remote TODO "${message}" added.`);
     }
   );
@@ -794,14 +1106,7 @@ export function activate(context: vscode.ExtensionContext) {
   let remoteListDisposable = vscode.commands.registerCommand(
     "remoteTodo.listTodos",
     async () => {
-      const userInfo = getGitUserInfo();
-      if (!userInfo) {
-        vscode.window.showErrorMessage("Git user information not available.");
-        return;
-      }
-
-      const allRemoteTodos = await loadRemoteTodos();
-      const visibleTodos = filterVisibleRemoteTodos(allRemoteTodos, userInfo.email);
+      const visibleTodos = await todoStore.getVisibleRemoteTodos();
 
       if (visibleTodos.length === 0) {
         vscode.window.showInformationMessage("No remote TODOs found for you.");
@@ -809,9 +1114,9 @@ export function activate(context: vscode.ExtensionContext) {
       }
 
       const items = visibleTodos.map((todo) => ({
-        label: `${vscode.workspace.asRelativePath(todo.file)}:${todo.line + 1}`,
+        label: formatTodoLocation(todo),
         description: `${todo.message} (${todo.author?.name})`,
-        detail: `Assignees: ${todo.assignees?.map(a => a.name).join(', ') || 'None'}`,
+        detail: `${STATUS_LABELS[getTodoStatus(todo)]} · ${formatTodoDetails(todo)} - Assignees: ${todo.assignees?.map(a => a.name).join(', ') || 'None'}`,
         todo,
       }));
 
@@ -829,37 +1134,84 @@ export function activate(context: vscode.ExtensionContext) {
     }
   );
 
-  let remoteAssignDisposable = vscode.commands.registerCommand(
-    "remoteTodo.assignTodo",
+  // An unreadable CODEOWNERS file only costs the code owner suggestions, the warning is shown once per folder
+  const codeOwnersWarnings = new Set<string>();
+  const readFolderCodeOwners = (folder: vscode.WorkspaceFolder): CodeOwnersRule[] => {
+    try {
+      return readCodeOwners(folder.uri.fsPath);
+    } catch (error) {
+      if (!codeOwnersWarnings.has(folder.uri.fsPath)) {
+        codeOwnersWarnings.add(folder.uri.fsPath);
+        vscode.window.showWarningMessage(`Failed to read the CODEOWNERS file of ${folder.name}: ${error}`);
+      }
+      return [];
+    }
+  };
+
+  let remoteAssignDisposable = vscode.commands.registerCommand(
+    "remoteTodo.assignTodo",
     async (document: vscode.TextDocument, lineNumber: number, todo: Todo) => {
       const file = document.uri.fsPath;
-      const allRemoteTodos = await loadRemoteTodos(file);
+      const allRemoteTodos = await todoStore.getRemoteTodos(file);
       const todoIndex = allRemoteTodos.findIndex(t => t.id === todo.id);
 
       if (todoIndex === -1) return;
 
       const currentTodo = allRemoteTodos[todoIndex];
+      const tag = getTagDefinition(currentTodo.kind);
+      if (!tag.assignable) {
+        vscode.window.showWarningMessage(`${tag.tag} items can not be assigned.`);
+        return;
+      }
+
       const currentAssignees = currentTodo.assignees || [];
-      const teamMembers = await loadTeamMembers();
+      let assignees = currentAssignees;
+      const teamMembers = await loadTeamMembers(file);
+      // With a shared roster, people are known by every email alias and shown by their roster name
+      const roster = todoStore.getRoster(file);
+      const isAssigned = (email: string) => currentAssignees.some(a => isSameIdentity(roster, a.email, email));
+
+      // Whoever changed the code around the TODO most recently, or owns the file, is suggested first
+      const workspaceFolder = getWorkspaceFolderForFile(file);
+      const suggestions = (workspaceFolder ? suggestAssignees(workspaceFolder.uri.fsPath, file, currentTodo.line, teamMembers, roster, readFolderCodeOwners(workspaceFolder)) : [])
+        .filter(suggestion => !isAssigned(suggestion.user.email))
+        .slice(0, MAX_ASSIGNEE_SUGGESTIONS);
+      const suggestionOptions = suggestions.map((suggestion) => {
+        const reasons = [
+          ...(suggestion.lines > 0 ? [`${suggestion.lines} line${suggestion.lines === 1 ? "" : "s"} nearby`] : []),
+          ...(suggestion.lastChange ? [`last change ${new Date(suggestion.lastChange).toISOString().slice(0, 10)}`] : []),
+          ...(suggestion.codeOwner ? ["code owner"] : [])
+        ];
+        return {
+          label: `⭐ Add ${suggestion.user.name}`,
+          description: [suggestion.user.email, ...reasons].join(' · '),
+          action: "add_existing",
+          user: suggestion.user
+        };
+      });
 
       // Create options for assignee management
       const assigneeOptions = currentAssignees.map((assignee) => ({
-        label: `❌ Remove ${assignee.name}`,
+        label: `❌ Remove ${findRosterMember(roster, assignee.email)?.name || assignee.name}`,
         description: `${assignee.email}`,
         action: "remove",
         user: assignee
       }));
 
       const teamOptions = teamMembers
-        .filter(member => !currentAssignees.some(a => a.email === member.email))
-        .map((member) => ({
-          label: `➕ Add ${member.name}`,
-          description: `${member.email}`,
-          action: "add_existing",
-          user: member
-        }));
+        .filter(member => !isAssigned(member.email) && !suggestions.some(s => isSameIdentity(roster, s.user.email, member.email)))
+        .map((member) => {
+          const roles = findRosterMember(roster, member.email)?.roles || [];
+          return {
+            label: `➕ Add ${member.name}`,
+            description: [member.email, ...roles].join(' · '),
+            action: "add_existing",
+            user: member
+          };
+        });
 
       const options = [
+        ...suggestionOptions,
         ...assigneeOptions,
         ...teamOptions,
         { label: "➕ Add New Team Member", description: "Add someone not in the team list", action: "add_new" },
@@ -875,7 +1227,7 @@ export function activate(context: vscode.ExtensionContext) {
 
       if (selectedOption.action === "add_existing" && 'user' in selectedOption) {
         // Add existing team member
-        currentAssignees.push(selectedOption.user);
+        assignees = [...currentAssignees, selectedOption.user];
         vscode.window.showInformationMessage(`✅ Added ${selectedOption.user.name} as assignee`);
       } else if (selectedOption.action === "add_new") {
         // Add new assignee with manual validation
@@ -910,11 +1262,8 @@ export function activate(context: vscode.ExtensionContext) {
             continue;
           }
 
-          // Check if already assigned (case-insensitive)
-          const normalizedEmail = trimmedEmail.toLowerCase();
-          const isAlreadyAssigned = currentAssignees.some(a => a.email.toLowerCase().trim() === normalizedEmail);
-
-          if (isAlreadyAssigned) {
+          // Check if already assigned (case-insensitive, under any of their roster aliases)
+          if (isAssigned(trimmedEmail)) {
             vscode.window.showErrorMessage("❌ This person is already assigned to this TODO.");
             validationAttempts++;
             continue;
@@ -930,26 +1279,33 @@ export function activate(context: vscode.ExtensionContext) {
           return;
         }
 
-        const assigneeName = await vscode.window.showInputBox({
-          prompt: "Enter assignee name",
-          placeHolder: "e.g., John Doe",
-        });
+        // An alias of someone in the roster needs no name and is already in the team
+        const rosterMember = findRosterMember(roster, assigneeEmail!);
+        if (rosterMember) {
+          assignees = [...currentAssignees, { name: rosterMember.name, email: assigneeEmail! }];
+          vscode.window.showInformationMessage(`✅ Added ${rosterMember.name} as assignee`);
+        } else {
+          const assigneeName = await vscode.window.showInputBox({
+            prompt: "Enter assignee name",
+            placeHolder: "e.g., John Doe",
+          });
 
-        if (!assigneeName) return;
+          if (!assigneeName) return;
 
-        const newAssignee: User = { name: assigneeName.trim(), email: assigneeEmail! };
-        currentAssignees.push(newAssignee);
+          const newAssignee: User = { name: assigneeName.trim(), email: assigneeEmail! };
+          assignees = [...currentAssignees, newAssignee];
 
-        // Optionally add to team
-        const addToTeam = await vscode.window.showQuickPick(["Yes", "No"], {
-          placeHolder: "Add this person to your team list for future use?"
-        });
+          // Optionally add to team
+          const addToTeam = await vscode.window.showQuickPick(["Yes", "No"], {
+            placeHolder: "Add this person to your team list for future use?"
+          });
 
-        if (addToTeam === "Yes") {
-          await addTeamMember(assigneeName.trim(), assigneeEmail!);
-          vscode.window.showInformationMessage(`✅ Added ${assigneeName.trim()} to team and as assignee`);
-        } else {
-          vscode.window.showInformationMessage(`✅ Added ${assigneeName.trim()} as assignee`);
+          if (addToTeam === "Yes") {
+            await addTeamMember(assigneeName.trim(), assigneeEmail!, file);
+            vscode.window.showInformationMessage(`✅ Added ${assigneeName.trim()} to team and as assignee`);
+          } else {
+            vscode.window.showInformationMessage(`✅ Added ${assigneeName.trim()} as assignee`);
+          }
         }
       } else if (selectedOption.action === "remove" && 'user' in selectedOption) {
         // Remove assignee
@@ -961,7 +1317,7 @@ export function activate(context: vscode.ExtensionContext) {
           return;
         }
 
-        allRemoteTodos[todoIndex].assignees = filteredAssignees;
+        assignees = filteredAssignees;
         vscode.window.showInformationMessage(`❌ Removed ${assigneeToRemove.name} from assignees`);
       } else if (selectedOption.action === "manage_team") {
         // Open team management
@@ -970,29 +1326,21 @@ export function activate(context: vscode.ExtensionContext) {
       }
 
       // Update the todo
-      allRemoteTodos[todoIndex].updatedAt = new Date().toISOString();
-      await saveRemoteTodos(allRemoteTodos, file);
-
-      // Clear cache for this file
-      todoCache.clear();
+      await todoStore.update('remote', file, (todos) => {
+        const stored = todos.find(t => t.id === todo.id);
+        if (!stored) return undefined;
 
-      codeLensProvider.refresh();
+        stored.assignees = assignees;
+        stored.updatedAt = new Date().toISOString();
+        return todos;
+      });
     }
   );
 
   let remoteRemoveDisposable = vscode.commands.registerCommand(
     "remoteTodo.removeTodo",
     async (document: vscode.TextDocument, lineNumber: number, todo: Todo) => {
-      const file = document.uri.fsPath;
-      const allRemoteTodos = await loadRemoteTodos(file);
-      const updatedTodos = allRemoteTodos.filter(t => t.id !== todo.id);
-
-      await saveRemoteTodos(updatedTodos, file);
-
-      // Clear cache for this file
-      todoCache.clear();
-
-      codeLensProvider.refresh();
+      await todoStore.update('remote', document.uri.fsPath, (todos) => todos.filter(t => t.id !== todo.id));
 
       vscode.window.showInformationMessage(`Remote TODO "${todo.message}" removed.`);
     }
@@ -1001,28 +1349,34 @@ export function activate(context: vscode.ExtensionContext) {
   let remoteEditDisposable = vscode.commands.registerCommand(
     "remoteTodo.editTodo",
     async (document: vscode.TextDocument, lineNumber: number, todo: Todo) => {
-      const newMessage = await vscode.window.showInputBox({
-        prompt: "Edit TODO message",
-        value: todo.message,
+      const kindPrefix = todo.kind && todo.kind !== DEFAULT_KIND ? `${todo.kind}: ` : "";
+      const currentValue = kindPrefix + [todo.message, formatTodoMetadata(todo)].filter(Boolean).join(" ");
+      const input = await vscode.window.showInputBox({
+        prompt: "Edit TODO message (a leading tag like FIXME:, [P0]-[P3], due:YYYY-MM-DD and #labels are optional)",
+        value: currentValue,
       });
 
-      if (!newMessage || newMessage === todo.message) return;
-
-      const file = document.uri.fsPath;
-      const allRemoteTodos = await loadRemoteTodos(file);
-      const todoIndex = allRemoteTodos.findIndex(t => t.id === todo.id);
-
-      if (todoIndex !== -1) {
-        allRemoteTodos[todoIndex].message = newMessage;
-        allRemoteTodos[todoIndex].updatedAt = new Date().toISOString();
+      if (!input || input === currentValue) return;
 
-        await saveRemoteTodos(allRemoteTodos, file);
+      const { kind, text } = parseTodoKind(input);
+      const metadata = parseTodoMetadata(text);
+      const newMessage = metadata.message;
+      if (!newMessage) return;
 
-        // Clear cache for this file
-        todoCache.clear();
+      const updated = await todoStore.update('remote', document.uri.fsPath, (todos) => {
+        const todoIndex = todos.findIndex(t => t.id === todo.id);
+        if (todoIndex === -1) return undefined;
 
-        codeLensProvider.refresh();
+        const { priority, dueDate, labels, ...rest } = todos[todoIndex];
+        todos[todoIndex] = { ...rest, kind, ...metadata };
+        if (!getTagDefinition(kind).assignable) {
+          todos[todoIndex].assignees = [];
+        }
+        todos[todoIndex].updatedAt = new Date().toISOString();
+        return todos;
+      });
 
+      if (updated) {
         vscode.window.showInformationMessage(`Remote TODO updated to "${newMessage}".`);
       }
     }
@@ -1045,41 +1399,162 @@ export function activate(context: vscode.ExtensionContext) {
 
       if (input) {
         const newLineNumber = parseInt(input) - 1;
-        const file = document.uri.fsPath;
-        const allRemoteTodos = await loadRemoteTodos(file);
-        const todoIndex = allRemoteTodos.findIndex(t => t.id === todo.id);
+        const moved = await todoStore.update('remote', document.uri.fsPath, (todos) => {
+          const stored = todos.find(t => t.id === todo.id);
+          if (!stored) return undefined;
+
+          stored.line = newLineNumber;
+          stored.anchor = createAnchor(getDocumentLines(document), newLineNumber);
+          delete stored.orphaned;
+          stored.updatedAt = new Date().toISOString();
+          return todos;
+        });
 
-        if (todoIndex !== -1) {
-          allRemoteTodos[todoIndex].line = newLineNumber;
-          allRemoteTodos[todoIndex].updatedAt = new Date().toISOString();
+        if (moved) {
+          vscode.window.showInformationMessage(`Remote TODO moved to line ${newLineNumber + 1}`);
+        }
+      }
+    }
+  );
 
-          await saveRemoteTodos(allRemoteTodos, file);
+  let remoteImportIssuesDisposable = vscode.commands.registerCommand(
+    "remoteTodo.importIssues",
+    async () => {
+      const [source] = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        openLabel: "Import Issues",
+        filters: { "Issue exports": ["json", "csv"] }
+      }) || [];
+      if (!source) return;
+
+      const content = Buffer.from(await vscode.workspace.fs.readFile(source)).toString('utf8');
+      const detected = detectIssueFormat(source.fsPath, content);
+      const format = await vscode.window.showQuickPick(
+        (Object.keys(ISSUE_FORMAT_LABELS) as IssueFormat[])
+          .sort((a, b) => Number(b === detected) - Number(a === detected))
+          .map(value => ({ label: ISSUE_FORMAT_LABELS[value], description: value === detected ? "detected" : undefined, value })),
+        { placeHolder: `Format of ${path.basename(source.fsPath)}` }
+      );
+      if (!format) return;
 
-          // Clear cache for this file
-          todoCache.clear();
+      let issues;
+      try {
+        issues = parseIssues(format.value, content);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to read ${path.basename(source.fsPath)}: ${error instanceof Error ? error.message : error}`);
+        return;
+      }
 
-          codeLensProvider.refresh();
+      // Issues that already have a remote TODO are not offered again
+      const existingTodos = await todoStore.getRemoteTodos();
+      const newIssues = issues.filter(issue => !existingTodos.some(todo => isSameExternalRef(todo.externalRef, issue.ref)));
+      if (newIssues.length === 0) {
+        vscode.window.showInformationMessage(issues.length === 0 ? "No issues found in the file." : "All issues in the file are already imported.");
+        return;
+      }
 
-          vscode.window.showInformationMessage(`Remote TODO moved to line ${newLineNumber + 1}`);
-        }
+      const selected = await vscode.window.showQuickPick(
+        newIssues.map(issue => ({
+          label: `${formatExternalRef(issue.ref)}: ${issue.title}`,
+          description: issue.closed ? "closed" : undefined,
+          detail: [issue.assignees.join(', '), issue.labels.map(label => `#${label}`).join(' ')].filter(Boolean).join(' · ') || undefined,
+          picked: !issue.closed,
+          issue
+        })),
+        { placeHolder: "Select the issues to import", canPickMany: true, matchOnDetail: true }
+      );
+      if (!selected || selected.length === 0) return;
+
+      // Every imported issue is anchored to the same line, Move puts them in place afterwards
+      const editor = vscode.window.activeTextEditor;
+      const anchorOptions = [
+        ...(editor ? [{ label: `Current line`, description: `${vscode.workspace.asRelativePath(editor.document.uri)}:${editor.selection.active.line + 1}`, pick: false }] : []),
+        { label: "Choose a file...", description: "Anchor the TODOs to a line of another file", pick: true }
+      ];
+      const anchorOption = await vscode.window.showQuickPick(anchorOptions, { placeHolder: "Where should the imported TODOs be anchored?" });
+      if (!anchorOption) return;
+
+      let document: vscode.TextDocument;
+      let lineNumber: number;
+      if (!anchorOption.pick && editor) {
+        document = editor.document;
+        lineNumber = editor.selection.active.line;
+      } else {
+        const [file] = await vscode.window.showOpenDialog({
+          canSelectMany: false,
+          defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+          openLabel: "Anchor TODOs"
+        }) || [];
+        if (!file) return;
+
+        document = await vscode.workspace.openTextDocument(file);
+        const lineInput = await vscode.window.showInputBox({
+          prompt: `Enter the line number in ${vscode.workspace.asRelativePath(file)} (1-${document.lineCount})`,
+          value: "1",
+          validateInput: (value) => {
+            const line = parseInt(value);
+            return isNaN(line) || line < 1 || line > document.lineCount ? `Please enter a number between 1 and ${document.lineCount}` : null;
+          }
+        });
+        if (!lineInput) return;
+        lineNumber = parseInt(lineInput) - 1;
+      }
+
+      // The TODOs belong to the repository of the anchor file, and so do their author and team
+      const file = document.uri.fsPath;
+      const userInfo = todoStore.getUser(file);
+      if (!userInfo) {
+        vscode.window.showErrorMessage("Git user information not available. Please configure git first.");
+        return;
       }
+
+      const now = new Date().toISOString();
+      const team = await loadTeamMembers(file);
+      const anchor = createAnchor(getDocumentLines(document), lineNumber);
+      const importedTodos: Todo[] = selected.map(({ issue }) => ({
+        ...issueToTodo(issue, userInfo, team, now),
+        file,
+        line: lineNumber,
+        anchor
+      }));
+
+      await todoStore.update('remote', file, (todos) => [
+        ...todos,
+        ...importedTodos.filter(imported => !todos.some(todo => isSameExternalRef(todo.externalRef, imported.externalRef!)))
+      ]);
+
+      // Tracker logins are matched against the team, the others can not be assigned
+      const unmatched = new Set(selected.flatMap(({ issue }) => issue.assignees.filter(assignee => !matchTeamMember(assignee, team))));
+      const note = unmatched.size > 0 ? ` Not in the team, left unassigned: ${Array.from(unmatched).join(', ')}.` : "";
+      vscode.window.showInformationMessage(`✅ Imported ${importedTodos.length} issue(s) as remote TODOs.${note}`);
     }
   );
 
   let remoteManageTeamDisposable = vscode.commands.registerCommand(
     "remoteTodo.manageTeam",
     async () => {
-      const teamMembers = await loadTeamMembers();
+      // Every workspace folder keeps its own team list
+      const workspaceFolder = await pickWorkspaceFolder("Select the workspace folder whose team to manage");
+      if (!workspaceFolder) return;
+
+      const root = workspaceFolder.uri.fsPath;
+      const teamMembers = await loadTeamMembers(root);
+      const roster = await loadRoster(root);
+      const knownEmails = roster ? roster.flatMap(member => member.emails) : teamMembers.map(member => member.email);
 
       const options = [
         { label: "➕ Add Team Member", description: "Add a new team member", action: "add" },
+        { label: "📜 Import Team from Git Log", description: "Pick members among the commit authors", action: "import" },
         ...teamMembers.map((member) => ({
           label: `❌ Remove ${member.name}`,
           description: `${member.email}`,
           action: "remove",
           member
         })),
-        { label: "👀 View All Members", description: "List all current team members", action: "view" }
+        { label: "👀 View All Members", description: "List all current team members", action: "view" },
+        roster
+          ? { label: "📄 Open Team Roster", description: ROSTER_FILE, action: "share" }
+          : { label: "📤 Share Team Roster", description: "Keep the team in a committed file", action: "share" }
       ];
 
       const selectedOption = await vscode.window.showQuickPick(options, {
@@ -1098,7 +1573,7 @@ export function activate(context: vscode.ExtensionContext) {
             if (!value.includes('@')) return "Please enter a valid email address";
             // Check if already in team (case-insensitive)
             const normalizedEmail = value.toLowerCase().trim();
-            if (teamMembers.some(m => m.email.toLowerCase().trim() === normalizedEmail)) {
+            if (knownEmails.some(email => email.toLowerCase().trim() === normalizedEmail)) {
               return "This person is already in the team";
             }
             return null;
@@ -1114,12 +1589,47 @@ export function activate(context: vscode.ExtensionContext) {
 
         if (!memberName) return;
 
-        const success = await addTeamMember(memberName, memberEmail);
+        const success = await addTeamMember(memberName, memberEmail, root);
         if (success) {
           vscode.window.showInformationMessage(`✅ Added ${memberName} to team`);
         }
+      } else if (selectedOption.action === "import") {
+        let contributors: Contributor[];
+        try {
+          contributors = readContributors(root);
+        } catch (error) {
+          vscode.window.showErrorMessage(`Failed to read the git log, is the folder a git repository with commits? ${error}`);
+          return;
+        }
+
+        const candidates = contributors.filter(contributor =>
+          !knownEmails.some(email => email.toLowerCase() === contributor.email.toLowerCase())
+        );
+        if (candidates.length === 0) {
+          vscode.window.showInformationMessage("Everyone in the git log is already in the team.");
+          return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+          candidates.map(contributor => ({
+            label: contributor.name,
+            description: contributor.email,
+            detail: `${contributor.commits} commit${contributor.commits === 1 ? "" : "s"} · last commit ${contributor.lastCommit?.slice(0, 10) || "unknown"}`,
+            contributor
+          })),
+          { placeHolder: "Select the people to add to the team", canPickMany: true, matchOnDescription: true }
+        );
+        if (!selected || selected.length === 0) return;
+
+        let added = 0;
+        for (const { contributor } of selected) {
+          if (await addTeamMember(contributor.name, contributor.email, root)) {
+            added++;
+          }
+        }
+        vscode.window.showInformationMessage(`✅ Added ${added} team member(s) from the git log`);
       } else if (selectedOption.action === "remove" && 'member' in selectedOption) {
-        const success = await removeTeamMember(selectedOption.member.email);
+        const success = await removeTeamMember(selectedOption.member.email, root);
         if (success) {
           vscode.window.showInformationMessage(`❌ Removed ${selectedOption.member.name} from team`);
         }
@@ -1134,14 +1644,393 @@ export function activate(context: vscode.ExtensionContext) {
         ).join('\n');
 
         vscode.window.showInformationMessage(`Team Members:\n${memberList}`, { modal: true });
+      } else if (selectedOption.action === "share") {
+        await vscode.commands.executeCommand("remoteTodo.shareTeamRoster", workspaceFolder);
+      }
+    }
+  );
+
+  let shareTeamRosterDisposable = vscode.commands.registerCommand(
+    "remoteTodo.shareTeamRoster",
+    async (folder?: vscode.WorkspaceFolder) => {
+      const workspaceFolder = folder || await pickWorkspaceFolder("Select the workspace folder whose team to share");
+      if (!workspaceFolder) return;
+
+      const root = workspaceFolder.uri.fsPath;
+      const rosterPath = path.join(root, ROSTER_FILE);
+      if (!(await loadRoster(root))) {
+        // Start from the personal team list and the current user, everyone else extends it from there
+        const user = todoStore.getUser(root);
+        const team = await loadTeamMembers(root);
+        await saveRoster(createRoster(user ? [user, ...team] : team), root);
+        vscode.window.showInformationMessage(`✅ Created ${ROSTER_FILE}. Add email aliases, GitHub handles and roles, then commit it to share the team.`);
+      }
+
+      await vscode.window.showTextDocument(vscode.Uri.file(rosterPath));
+    }
+  );
+
+  let installMergeDriverDisposable = vscode.commands.registerCommand(
+    "remoteTodo.installMergeDriver",
+    async () => {
+      const workspaceFolder = await pickWorkspaceFolder("Select the repository to register the merge driver in");
+      if (!workspaceFolder) return;
+
+      try {
+        installMergeDriver(workspaceFolder.uri.fsPath, mergeDriverScript);
+        vscode.window.showInformationMessage("✅ Merge driver registered. Commit .gitattributes so the whole team uses it; everyone else runs this command once too.");
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to register the merge driver, is the workspace a git repository? ${error}`);
+      }
+    }
+  );
+
+  let migrateStorageDisposable = vscode.commands.registerCommand(
+    "remoteTodo.migrateStorage",
+    async () => {
+      const workspaceFolder = await pickWorkspaceFolder("Select the workspace folder whose remote TODOs to move");
+      if (!workspaceFolder) return;
+
+      const root = workspaceFolder.uri.fsPath;
+      const currentLayout = detectRemoteStorageLayout(root);
+      const layouts = Object.keys(STORAGE_LAYOUT_LABELS) as RemoteStorageLayout[];
+      const selected = await vscode.window.showQuickPick(
+        layouts.map(layout => ({
+          label: layout === currentLayout ? `$(check) ${STORAGE_LAYOUT_LABELS[layout]}` : STORAGE_LAYOUT_LABELS[layout],
+          description: layout === currentLayout ? "current" : undefined,
+          layout
+        })),
+        { placeHolder: "Choose where remote TODOs are stored" }
+      );
+
+      if (!selected || selected.layout === currentLayout) return;
+
+      const confirm = await vscode.window.showWarningMessage(
+        `Move all remote TODOs to "${STORAGE_LAYOUT_LABELS[selected.layout]}"? The old storage is deleted.`,
+        { modal: true },
+        "Move"
+      );
+      if (confirm !== "Move") return;
+
+      try {
+        const moved = await todoStore.enqueue(async () => migrateRemoteTodoStorage(root, selected.layout));
+        await todoStore.reload(workspaceFolder);
+        vscode.window.showInformationMessage(`✅ Moved ${moved} remote TODO(s). Commit the change so your team uses the new layout.`);
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to migrate remote TODOs: ${error}`);
+      }
+    }
+  );
+
+  let scanWorkspaceDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.scanWorkspace",
+    async () => {
+      if (!vscode.workspace.workspaceFolders?.length) {
+        vscode.window.showErrorMessage("No workspace folder found.");
+        return;
+      }
+
+      const found = await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: "Scanning workspace for TODO comments",
+          cancellable: true
+        },
+        (progress, token) => scanWorkspaceForTodoComments(progress, token)
+      );
+
+      if (found.length === 0) {
+        vscode.window.showInformationMessage("No TODO comments found in the workspace.");
+        return;
+      }
+
+      const items = found.map((result) => ({
+        label: `${result.comment.tag}: ${result.comment.message}`,
+        description: `${vscode.workspace.asRelativePath(result.uri)}:${result.line + 1}`,
+        result
+      }));
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: `Select the comments to convert (${found.length} found)`,
+        canPickMany: true,
+        matchOnDescription: true
+      });
+
+      if (!selected || selected.length === 0) return;
+
+      const target = await vscode.window.showQuickPick(
+        [
+          { label: "📝 Local TODOs", description: "Personal, stored in .localtodos.json", type: "local" as const },
+          { label: "🌐 Remote TODOs", description: "Shared with the team, stored in .remotetodos.json", type: "remote" as const }
+        ],
+        { placeHolder: `Convert ${selected.length} comment(s) to` }
+      );
+
+      if (!target) return;
+
+      // Remote TODOs are authored by the git user of each file's repository
+      if (target.type === "remote" && selected.some(({ result }) => !todoStore.getUser(result.uri.fsPath))) {
+        vscode.window.showErrorMessage("Git user information not available. Please configure git first.");
+        return;
+      }
+
+      // Group the selected comments per line, a line is edited once for all of its comments
+      const commentsByLine = new Map<string, ScannedTodoComment[]>();
+      for (const { result } of selected) {
+        const key = `${result.uri.toString()}#${result.line}`;
+        commentsByLine.set(key, [...(commentsByLine.get(key) || []), result]);
+      }
+
+      const edit = new vscode.WorkspaceEdit();
+      const documents = new Map<string, vscode.TextDocument>();
+      const todosByFolder = new Map<string, Todo[]>();
+      const now = new Date().toISOString();
+      let count = 0;
+
+      for (const results of commentsByLine.values()) {
+        const { uri, line } = results[0];
+        const document = documents.get(uri.toString()) || await vscode.workspace.openTextDocument(uri);
+        documents.set(uri.toString(), document);
+        removeTodoComments(edit, document, line, results.map(result => result.comment));
+
+        const file = uri.fsPath;
+        const userInfo = target.type === "remote" ? todoStore.getUser(file) : null;
+        for (const { comment } of results) {
+          const metadata = parseTodoMetadata(comment.message);
+          const todo: Todo = target.type === "remote"
+            ? {
+              file,
+              line,
+              type: "remote",
+              kind: comment.tag,
+              ...metadata,
+              id: `remote-${toWorkspaceRelativePath(file)}:${line}:${Date.now()}-${count}`,
+              author: userInfo!,
+              assignees: getTagDefinition(comment.tag).assignable ? [userInfo!] : [],
+              createdAt: now,
+              updatedAt: now,
+            }
+            : {
+              file,
+              line,
+              column: comment.column,
+              type: "local",
+              kind: comment.tag,
+              ...metadata,
+              id: `${toWorkspaceRelativePath(file)}:${line}:${comment.column}`,
+            };
+
+          const folderPath = vscode.workspace.getWorkspaceFolder(uri)?.uri.fsPath || "";
+          todosByFolder.set(folderPath, [...(todosByFolder.get(folderPath) || []), todo]);
+          count++;
+        }
+      }
+
+      // Write each TODO file once, line tracking shifts the new TODOs when the edit is applied
+      for (const folderTodos of todosByFolder.values()) {
+        await todoStore.update(target.type, folderTodos[0].file, (existingTodos) => appendTodos(existingTodos, folderTodos));
+      }
+
+      // A single edit for all files, so the conversion can be undone at once
+      await vscode.workspace.applyEdit(edit);
+      for (const document of documents.values()) {
+        await refreshAnchors(document);
+      }
+
+      vscode.window.showInformationMessage(`Converted ${count} comment(s) to ${target.type} TODOs.`);
+    }
+  );
+
+  // Discussion thread commands, invoked from the comment widget menus
+  let discussionReplyDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.discussion.reply",
+    (reply: vscode.CommentReply) => discussionController.reply(reply)
+  );
+
+  let discussionEditDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.discussion.editComment",
+    (comment: DiscussionCommentView) => discussionController.startEdit(comment)
+  );
+
+  let discussionSaveDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.discussion.saveComment",
+    (comment: DiscussionCommentView) => discussionController.saveEdit(comment)
+  );
+
+  let discussionCancelDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.discussion.cancelEdit",
+    (comment: DiscussionCommentView) => discussionController.cancelEdit(comment)
+  );
+
+  let discussionDeleteDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.discussion.deleteComment",
+    (comment: DiscussionCommentView) => discussionController.deleteComment(comment)
+  );
+
+  let discussionResolveDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.discussion.resolve",
+    (thread: vscode.CommentThread) => discussionController.setResolved(thread, true)
+  );
+
+  let discussionReopenDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.discussion.reopen",
+    (thread: vscode.CommentThread) => discussionController.setResolved(thread, false)
+  );
+
+  // Runs the action of a hover link. Its arguments are plain JSON, so the TODO and document are looked up again.
+  let hoverActionDisposable = vscode.commands.registerCommand(
+    HOVER_ACTION_COMMAND,
+    async (args?: HoverActionArgs) => {
+      const command = args && getHoverActionCommand(args.type, args.action);
+      if (!args || !command || typeof args.file !== 'string') return;
+
+      const todos = await todoStore.getFileTodos(args.type, args.file);
+      const todo = todos.find(t => args.id ? t.id === args.id : t.line === args.line && t.message === args.message);
+      if (!todo) {
+        vscode.window.showWarningMessage("This TODO no longer exists.");
+        return;
       }
+
+      const document = await vscode.workspace.openTextDocument(vscode.Uri.file(todo.file));
+      await vscode.commands.executeCommand(command, document, todo.line, todo);
     }
   );
 
+  // Tree view commands
+  let treeGroupByDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.treeView.groupBy",
+    async () => {
+      const current = todoTreeProvider.getGrouping();
+      const items = (Object.keys(GROUPING_LABELS) as TodoGrouping[]).map((grouping) => ({
+        label: `Group by ${GROUPING_LABELS[grouping]}`,
+        description: grouping === current ? "Current" : undefined,
+        grouping
+      }));
+
+      const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: "Group TODOs by"
+      });
+
+      if (selected) {
+        await context.workspaceState.update("awesomeTodo.treeGrouping", selected.grouping);
+        todoTreeProvider.setGrouping(selected.grouping);
+      }
+    }
+  );
+
+  let setVisibilityDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.setVisibility",
+    async () => {
+      const current = todoStore.getVisibility();
+      const details: Record<VisibilityMode, string> = {
+        mine: "Remote TODOs you authored or are assigned to",
+        team: "Every remote TODO of the team",
+        unassigned: "Remote TODOs nobody is assigned to",
+        person: "Remote TODOs a team member authored or is assigned to"
+      };
+      const selected = await vscode.window.showQuickPick(
+        (Object.keys(VISIBILITY_LABELS) as VisibilityMode[]).map((mode) => ({
+          label: VISIBILITY_LABELS[mode],
+          description: mode === current.mode ? "Current" : undefined,
+          detail: details[mode],
+          mode
+        })),
+        { placeHolder: "Show remote TODOs" }
+      );
+      if (!selected) return;
+
+      let visibility: Visibility = { mode: selected.mode };
+      if (selected.mode === "person") {
+        // The team members of every workspace folder, each person once
+        const members: User[] = [];
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+          for (const member of await loadTeamMembers(folder.uri.fsPath)) {
+            if (!members.some(m => m.email.toLowerCase() === member.email.toLowerCase())) {
+              members.push(member);
+            }
+          }
+        }
+        if (members.length === 0) {
+          vscode.window.showInformationMessage("No team members found. Add some team members first.");
+          return;
+        }
+
+        const person = await vscode.window.showQuickPick(
+          members.map((member) => ({ label: member.name, description: member.email, member })),
+          { placeHolder: "Show the remote TODOs of", matchOnDescription: true }
+        );
+        if (!person) return;
+        visibility = { mode: "person", person: person.member };
+      }
+
+      await context.workspaceState.update("awesomeTodo.visibility", visibility);
+      todoStore.setVisibility(visibility);
+      updateVisibilityStatusBar();
+    }
+  );
+
+  let treeRefreshDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.treeView.refresh",
+    async () => {
+      // Re-read the TODO files, the tree refreshes when the store reports the change
+      for (const folder of vscode.workspace.workspaceFolders || []) {
+        await todoStore.reload(folder);
+      }
+    }
+  );
+
+  // Open the TODO's file and forward to the regular command with its usual arguments
+  const forwardTreeAction = (localCommand: string, remoteCommand: string) =>
+    async (element?: TodoTreeElement) => {
+      if (!element || element.kind !== "todo") return;
+
+      const todo = element.todo;
+      const position = new vscode.Position(todo.line, 0);
+      const editor = await vscode.window.showTextDocument(vscode.Uri.file(todo.file), {
+        selection: new vscode.Range(position, position),
+      });
+      await vscode.commands.executeCommand(
+        todo.type === "remote" ? remoteCommand : localCommand,
+        editor.document,
+        todo.line,
+        todo
+      );
+    };
+
+  let treeEditDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.treeView.editTodo",
+    forwardTreeAction("localTodo.editTodo", "remoteTodo.editTodo")
+  );
+
+  let treeAssignDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.treeView.assignTodo",
+    forwardTreeAction("remoteTodo.assignTodo", "remoteTodo.assignTodo")
+  );
+
+  let treeMoveDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.treeView.moveTodo",
+    forwardTreeAction("localTodo.moveTodo", "remoteTodo.moveTodo")
+  );
+
+  let treeRemoveDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.treeView.removeTodo",
+    forwardTreeAction("localTodo.removeTodo", "remoteTodo.removeTodo")
+  );
+
+  let treeSetStatusDisposable = vscode.commands.registerCommand(
+    "awesomeTodo.treeView.setStatus",
+    forwardTreeAction("awesomeTodo.setStatus", "awesomeTodo.setStatus")
+  );
+
   context.subscriptions.push(
     disposable,
     listDisposable,
     listAllTodosDisposable,
+    showFileTodosDisposable,
+    exportTodosDisposable,
+    setStatusDisposable,
+    editDetailsDisposable,
+    listCompletedDisposable,
     removeDisposable,
     editDisposable,
     editTodosInFileDisposable,
@@ -1154,12 +2043,35 @@ export function activate(context: vscode.ExtensionContext) {
     remoteRemoveDisposable,
     remoteEditDisposable,
     remoteMoveDisposable,
-    remoteManageTeamDisposable
+    remoteImportIssuesDisposable,
+    remoteManageTeamDisposable,
+    shareTeamRosterDisposable,
+    installMergeDriverDisposable,
+    migrateStorageDisposable,
+    scanWorkspaceDisposable,
+    hoverActionDisposable,
+    discussionReplyDisposable,
+    discussionEditDisposable,
+    discussionSaveDisposable,
+    discussionCancelDisposable,
+    discussionDeleteDisposable,
+    discussionResolveDisposable,
+    discussionReopenDisposable,
+    treeGroupByDisposable,
+    setVisibilityDisposable,
+    treeRefreshDisposable,
+    treeEditDisposable,
+    treeAssignDisposable,
+    treeMoveDisposable,
+    treeRemoveDisposable,
+    treeSetStatusDisposable
   );
 
   // Refresh decorations and diagnostics on document open and change
   vscode.workspace.onDidOpenTextDocument(
-    (document) => {
+    async (document) => {
+      // Re-locate TODOs from their fingerprints, the file may have changed while closed
+      await relocateDocumentTodos(document);
       debouncedRefreshDecorations();
       updateDiagnostics();
     },
@@ -1168,7 +2080,10 @@ export function activate(context: vscode.ExtensionContext) {
   );
 
   vscode.workspace.onDidChangeTextDocument(
-    (event) => {
+    async (event) => {
+      // Keep stored line numbers in sync with lines inserted or deleted above them
+      await trackTodoLines(event);
+
       // Only refresh for the active editor to avoid unnecessary updates
       const activeEditor = vscode.window.activeTextEditor;
       if (activeEditor && activeEditor.document === event.document) {
@@ -1179,9 +2094,156 @@ export function activate(context: vscode.ExtensionContext) {
     context.subscriptions
   );
 
+  vscode.workspace.onDidChangeConfiguration(
+    (event) => {
+      if (event.affectsConfiguration('awesomeTodo')) {
+        codeLensProvider.refresh();
+        updateDiagnostics();
+        debouncedUpdateStatusBar();
+      }
+    },
+    null,
+    context.subscriptions
+  );
+
+  vscode.workspace.onDidSaveTextDocument(
+    (document) => debouncedPersistSavedDocuments(document),
+    null,
+    context.subscriptions
+  );
+
+  vscode.workspace.onDidCloseTextDocument(
+    (document) => restoreDiscardedLineShifts(document),
+    null,
+    context.subscriptions
+  );
+
+  // Re-locate TODOs in documents that were already open before activation
+  vscode.workspace.textDocuments.forEach((document) => relocateDocumentTodos(document));
+
   // Initial refresh
   debouncedRefreshDecorations();
   updateDiagnostics();
+  debouncedUpdateStatusBar();
+}
+
+const TODO_STORAGE_TYPES: TodoStorageType[] = ["local", "remote"];
+
+// Shift the TODO lines of the changed document. The shifts are only kept in memory until the document
+// is saved, so typing does not rewrite the TODO files. Returns true when any TODO moved.
+async function trackTodoLines(event: vscode.TextDocumentChangeEvent): Promise<boolean> {
+  const document = event.document;
+  if (document.uri.scheme !== 'file' || !vscode.workspace.getWorkspaceFolder(document.uri)) return false;
+
+  const affectsLines = event.contentChanges.some(
+    change => change.range.start.line !== change.range.end.line || change.text.includes('\n')
+  );
+  if (!affectsLines) return false;
+
+  const file = document.uri.fsPath;
+  let changed = false;
+
+  for (const type of TODO_STORAGE_TYPES) {
+    changed = await todoStore.update(type, file, (todos) =>
+      shiftTodosForChanges(todos.filter(todo => todo.file === file), event.contentChanges) ? todos : undefined,
+      false
+    ) || changed;
+  }
+
+  if (changed) {
+    unsavedLineShifts.add(file);
+  }
+  return changed;
+}
+
+// Persist line shifts and anchors once after saving, "Save All" writes the TODO files only once
+function debouncedPersistSavedDocuments(document: vscode.TextDocument) {
+  savedDocuments.set(document.uri.fsPath, document);
+  if (persistTimeout) {
+    clearTimeout(persistTimeout);
+  }
+  persistTimeout = setTimeout(persistSavedDocuments, 300);
+}
+
+async function persistSavedDocuments() {
+  const documents = Array.from(savedDocuments.values());
+  savedDocuments.clear();
+
+  for (const document of documents) {
+    unsavedLineShifts.delete(document.uri.fsPath);
+    await refreshAnchors(document);
+    await todoStore.flush(document.uri.fsPath);
+  }
+}
+
+// A document closed with unsaved line shifts had its edits discarded, re-locate its TODOs in the file on disk
+async function restoreDiscardedLineShifts(document: vscode.TextDocument) {
+  const file = document.uri.fsPath;
+  if (!unsavedLineShifts.delete(file) || savedDocuments.has(file)) return;
+
+  let lines: string[];
+  try {
+    lines = Buffer.from(await vscode.workspace.fs.readFile(document.uri)).toString("utf8").split(/\r?\n/);
+  } catch (error) {
+    return; // Deleted along with the edits
+  }
+  for (const type of TODO_STORAGE_TYPES) {
+    await todoStore.update(type, file, (todos) => relocateTodos(lines, todos.filter(todo => todo.file === file)) ? todos : undefined);
+  }
+}
+
+// Re-locate the TODOs of a freshly opened document. Returns true when any TODO changed.
+// Like unsaved line shifts the result is only written with the next save: the workspace scan opens
+// every candidate file, which must not rewrite the shared TODO files with position changes alone.
+async function relocateDocumentTodos(document: vscode.TextDocument): Promise<boolean> {
+  if (document.uri.scheme !== 'file' || !vscode.workspace.getWorkspaceFolder(document.uri)) return false;
+
+  const file = document.uri.fsPath;
+  const lines = getDocumentLines(document);
+  let changed = false;
+  let orphanCount = 0;
+
+  for (const type of TODO_STORAGE_TYPES) {
+    changed = await todoStore.update(type, file, (todos) => {
+      const fileTodos = todos.filter(todo => todo.file === file);
+      const wasOrphaned = new Set(fileTodos.filter(todo => todo.orphaned));
+      const relocated = relocateTodos(lines, fileTodos);
+      orphanCount += fileTodos.filter(todo => todo.orphaned && !wasOrphaned.has(todo)).length;
+      return relocated ? todos : undefined;
+    }, false) || changed;
+  }
+
+  if (orphanCount > 0) {
+    vscode.window.showWarningMessage(
+      `${orphanCount} TODO(s) in ${vscode.workspace.asRelativePath(file)} could not be re-located and were marked as orphaned.`
+    );
+  }
+
+  return changed;
+}
+
+// Re-compute the fingerprints of the document's TODOs from its current content
+async function refreshAnchors(document: vscode.TextDocument) {
+  if (document.uri.scheme !== 'file' || !vscode.workspace.getWorkspaceFolder(document.uri)) return;
+
+  const file = document.uri.fsPath;
+  const lines = getDocumentLines(document);
+  const updateAnchors = (todos: Todo[]): boolean => {
+    let changed = false;
+    for (const todo of todos) {
+      if (todo.file !== file || todo.orphaned || todo.line >= lines.length) continue;
+      const anchor = createAnchor(lines, todo.line);
+      if (JSON.stringify(anchor) !== JSON.stringify(todo.anchor)) {
+        todo.anchor = anchor;
+        changed = true;
+      }
+    }
+    return changed;
+  };
+
+  for (const type of TODO_STORAGE_TYPES) {
+    await todoStore.update(type, file, (todos) => updateAnchors(todos) ? todos : undefined);
+  }
 }
 
 function debouncedRefreshDecorations() {
@@ -1191,6 +2253,39 @@ function debouncedRefreshDecorations() {
   refreshTimeout = setTimeout(refreshDecorations, 300);
 }
 
+function debouncedUpdateStatusBar() {
+  if (statusBarUpdateTimeout) {
+    clearTimeout(statusBarUpdateTimeout);
+  }
+  statusBarUpdateTimeout = setTimeout(updateStatusBar, 300);
+}
+
+// Counts follow what the editor shows: completed TODOs only with showCompletedTodos, remote TODOs
+// in the current visibility mode. Assigned and overdue counts are always the user's own.
+async function updateStatusBar() {
+  const document = vscode.window.activeTextEditor?.document;
+  const file = document?.uri.scheme === "file" ? document.uri.fsPath : undefined;
+  const localTodos = filterEditorTodos(await todoStore.getLocalTodos());
+  const remoteTodos = filterEditorTodos(await todoStore.getVisibleRemoteTodos());
+  const inFile = (todos: Todo[]) => todos.filter(todo => todo.file === file).length;
+
+  const assigned = (await todoStore.getAssignedRemoteTodos()).filter(todo => getTodoStatus(todo) !== "done");
+  const overdue = [...localTodos, ...assigned].filter(todo => isTodoOverdue(todo)).length;
+
+  const parts = [`$(note) ${inFile(localTodos)}/${localTodos.length}`, `$(globe) ${inFile(remoteTodos)}/${remoteTodos.length}`, `$(person) ${assigned.length}`];
+  if (overdue > 0) {
+    parts.push(`$(warning) ${overdue}`);
+  }
+  statusBarItem.text = parts.join(" ");
+  statusBarItem.tooltip = [
+    ...(file ? [`This file: ${inFile(localTodos)} local, ${inFile(remoteTodos)} remote`] : []),
+    `Workspace: ${localTodos.length} local, ${remoteTodos.length} remote`,
+    `Assigned to you: ${assigned.length} open`,
+    `Overdue: ${overdue}`,
+    "Click to list the TODOs of this file"
+  ].join("\n");
+}
+
 async function updateDiagnostics() {
   // Clear existing diagnostics
   diagnosticCollection.clear();
@@ -1199,8 +2294,7 @@ async function updateDiagnostics() {
   const editors = vscode.window.visibleTextEditors;
 
   for (const editor of editors) {
-    const todos = await loadTodos(editor.document.uri.fsPath);
-    const fileTodos = todos.filter(todo => todo.file === editor.document.uri.fsPath);
+    const fileTodos = filterEditorTodos(await todoStore.getFileTodos('local', editor.document.uri.fsPath));
 
     const diagnostics: vscode.Diagnostic[] = [];
 
@@ -1209,11 +2303,12 @@ async function updateDiagnostics() {
         const line = editor.document.lineAt(todo.line);
         const range = new vscode.Range(todo.line, 0, todo.line, line.text.length);
 
-        // Create information-level diagnostic for TODO
+        // Create information-level diagnostic for TODO, overdue ones are raised to warnings
+        const overdue = isTodoOverdue(todo);
         const diagnostic = new vscode.Diagnostic(
           range,
-          `TODO: ${todo.message}`,
-          vscode.DiagnosticSeverity.Information
+          `${getTagDefinition(todo.kind).tag}: ${todo.message}${overdue ? ` (overdue since ${todo.dueDate})` : ''}`,
+          overdue ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Information
         );
 
         // Add custom tags and source
@@ -1235,10 +2330,7 @@ async function updateDiagnostics() {
 
 
 // Auto-manage .gitignore entries for local files
-async function ensureGitIgnoreEntries() {
-  const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-  if (!workspaceFolder) return;
-
+async function ensureGitIgnoreEntries(workspaceFolder: vscode.WorkspaceFolder) {
   const gitignorePath = vscode.Uri.joinPath(workspaceFolder.uri, '.gitignore');
   let gitignoreContent = '';
 
@@ -1295,4 +2387,12 @@ export function deactivate() {
   if (refreshTimeout) {
     clearTimeout(refreshTimeout);
   }
+  if (statusBarUpdateTimeout) {
+    clearTimeout(statusBarUpdateTimeout);
+  }
+  if (persistTimeout) {
+    clearTimeout(persistTimeout);
+  }
+  savedDocuments.clear();
+  unsavedLineShifts.clear();
 }
@@ -0,0 +1,85 @@
+// People who worked on a repository, as recorded by git. Identities are mapped through .mailmap.
+import { execFileSync } from 'child_process';
+import * as path from 'path';
+import type { User } from './core';
+
+export interface Contributor extends User {
+  commits: number;
+  lastCommit?: string; // ISO date of the newest commit
+}
+
+function git(root: string, args: string[]): string {
+  return execFileSync('git', args, { cwd: root, encoding: 'utf8', maxBuffer: 64 * 1024 * 1024, stdio: ['ignore', 'pipe', 'pipe'] });
+}
+
+// Authors of HEAD's history, most active first. One entry per email address: an address used under
+// several names keeps the name with the most commits. Throws when root is not a git repository or has no commits.
+export function readContributors(root: string): Contributor[] {
+  const byEmail = new Map<string, Contributor & { nameCommits: number }>();
+
+  // "  12\tAda Lovelace <ada@example.com>", HEAD keeps shortlog from reading stdin
+  for (const line of git(root, ['shortlog', '-sne', 'HEAD']).split('\n')) {
+    const match = line.match(/^\s*(\d+)\t(.*?)\s*<([^>]*)>\s*$/);
+    if (!match || !match[3].includes('@')) continue;
+
+    const commits = parseInt(match[1]);
+    const key = match[3].toLowerCase();
+    const existing = byEmail.get(key);
+    if (!existing) {
+      byEmail.set(key, { name: match[2], email: match[3], commits, nameCommits: commits });
+    } else {
+      existing.commits += commits;
+      if (commits > existing.nameCommits) {
+        existing.name = match[2];
+        existing.nameCommits = commits;
+      }
+    }
+  }
+
+  // Newest first, so the first date seen for an address is its last commit
+  for (const line of git(root, ['log', '--use-mailmap', '--format=%aE%x09%aI', 'HEAD']).split('\n')) {
+    const [email, date] = line.split('\t');
+    const contributor = email && byEmail.get(email.toLowerCase());
+    if (contributor && !contributor.lastCommit) {
+      contributor.lastCommit = date;
+    }
+  }
+
+  return Array.from(byEmail.values())
+    .map(({ nameCommits, ...contributor }) => contributor)
+    .sort((a, b) => b.commits - a.commits || a.name.localeCompare(b.name));
+}
+
+export interface LineAuthor extends User {
+  time: number; // Author time of the commit that last changed the line, in ms
+}
+
+// Who last changed each line from startLine to endLine (0-based, inclusive) of a file. Lines that
+// are not committed yet are left out; a file git does not track has no authors.
+export function blameLines(root: string, filePath: string, startLine: number, endLine: number): LineAuthor[] {
+  let output: string;
+  try {
+    output = git(root, ['blame', '--line-porcelain', '-L', `${startLine + 1},${endLine + 1}`, '--', path.relative(root, filePath)]);
+  } catch (error) {
+    return [];
+  }
+
+  const authors: LineAuthor[] = [];
+  let current: Partial<LineAuthor> = {};
+  for (const line of output.split('\n')) {
+    if (line.startsWith('author ')) {
+      current.name = line.slice('author '.length);
+    } else if (line.startsWith('author-mail ')) {
+      current.email = line.slice('author-mail '.length).replace(/^<|>$/g, '');
+    } else if (line.startsWith('author-time ')) {
+      current.time = parseInt(line.slice('author-time '.length)) * 1000;
+    } else if (line.startsWith('\t')) {
+      // The content line closes the entry of each blamed line
+      if (current.name && current.email?.includes('@') && current.time !== undefined) {
+        authors.push(current as LineAuthor);
+      }
+      current = {};
+    }
+  }
+  return authors;
+}
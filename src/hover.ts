@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import { getTagDefinition } from './tags';
+import { TodoStore } from './todoStore';
+import { filterEditorTodos, formatExternalRef, formatTodoDetails, getExternalRefUrl, getTodoStatus, STATUS_LABELS, Todo } from './utils';
+
+// The only command hover links may run, it re-resolves the TODO from the store before acting
+export const HOVER_ACTION_COMMAND = 'awesomeTodo.hoverAction';
+
+export type HoverAction = 'edit' | 'status' | 'assign' | 'move' | 'remove';
+
+// Arguments of a hover link, plain JSON so they survive the command: URI
+export interface HoverActionArgs {
+  action: HoverAction;
+  type: Todo['type'];
+  file: string;
+  line: number;
+  id?: string;
+  message: string;
+}
+
+const ACTION_COMMANDS: Record<Todo['type'], Partial<Record<HoverAction, string>>> = {
+  local: { edit: 'localTodo.editTodo', status: 'awesomeTodo.setStatus', move: 'localTodo.moveTodo', remove: 'localTodo.removeTodo' },
+  remote: { edit: 'remoteTodo.editTodo', status: 'awesomeTodo.setStatus', assign: 'remoteTodo.assignTodo', move: 'remoteTodo.moveTodo', remove: 'remoteTodo.removeTodo' }
+};
+
+const ACTION_LABELS: Record<HoverAction, { title: string; tooltip: string }> = {
+  edit: { title: '✏️ Edit', tooltip: 'Edit this TODO' },
+  status: { title: '🔄 Status', tooltip: 'Change the status of this TODO' },
+  assign: { title: '👤 Assign', tooltip: 'Add assignees to this TODO' },
+  move: { title: '📍 Move', tooltip: 'Move this TODO to another line' },
+  remove: { title: '🗑️ Remove', tooltip: 'Delete this TODO permanently' }
+};
+
+export function getHoverActionCommand(type: Todo['type'], action: HoverAction): string | undefined {
+  return ACTION_COMMANDS[type][action];
+}
+
+// Escape text for Markdown with HTML support, so messages can not inject links, commands or markup
+export function escapeMarkdown(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/[\\`*_{}[\]()#+\-.!|~]/g, '\\$&')
+    .replace(/\r?\n/g, ' ');
+}
+
+function commandLink(action: HoverAction, todo: Todo): string {
+  const args: HoverActionArgs = { action, type: todo.type, file: todo.file, line: todo.line, ...(todo.id ? { id: todo.id } : {}), message: todo.message };
+  const uri = `command:${HOVER_ACTION_COMMAND}?${encodeURIComponent(JSON.stringify([args]))}`;
+  return `[${ACTION_LABELS[action].title}](${uri} "${ACTION_LABELS[action].tooltip}")`;
+}
+
+// Characters that would end the link destination are percent-encoded
+function linkTarget(url: string): string {
+  return encodeURI(url).replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
+
+function appendTodo(content: vscode.MarkdownString, todo: Todo): void {
+  const tag = getTagDefinition(todo.kind);
+  const isRemote = todo.type === 'remote';
+  // Only plain hex colors from the settings make it into the style attribute
+  const color = /^#[0-9a-f]{3,8}$/i.test(tag.color) ? tag.color : undefined;
+  const title = `${isRemote ? '🌐 ' : ''}${escapeMarkdown(tag.icon)} ${isRemote ? 'Remote' : 'Local'} ${escapeMarkdown(tag.tag)}`;
+
+  content.appendMarkdown(`${color ? `<span style="color:${color};">**${title}**</span>` : `**${title}**`}: ${escapeMarkdown(todo.message)}`);
+  if (todo.orphaned) {
+    content.appendMarkdown(' ⚠️ _orphaned_');
+  }
+  content.appendMarkdown(`\n\n${escapeMarkdown(`${STATUS_LABELS[getTodoStatus(todo)]} · ${formatTodoDetails(todo)}`)}`);
+
+  if (isRemote) {
+    const assignees = todo.assignees?.map(assignee => assignee.name).join(', ') || 'None';
+    content.appendMarkdown(`\n\n👤 Author: ${escapeMarkdown(todo.author?.name || 'Unknown')} | 👥 Assignees: ${escapeMarkdown(assignees)}`);
+  }
+  if (todo.externalRef) {
+    const url = getExternalRefUrl(todo.externalRef);
+    const label = escapeMarkdown(formatExternalRef(todo.externalRef));
+    content.appendMarkdown(`\n\n🔗 ${url ? `[${label}](${linkTarget(url)})` : label}`);
+  }
+
+  const actions: HoverAction[] = isRemote && getTagDefinition(todo.kind).assignable
+    ? ['edit', 'status', 'assign', 'move', 'remove']
+    : ['edit', 'status', 'move', 'remove'];
+  content.appendMarkdown(`\n\n${actions.map(action => commandLink(action, todo)).join(' · ')}`);
+}
+
+// Hover card with details and actions for every TODO stored on the hovered line
+export class TodoHoverProvider implements vscode.HoverProvider {
+  constructor(private readonly store: TodoStore) {}
+
+  async provideHover(document: vscode.TextDocument, position: vscode.Position): Promise<vscode.Hover | undefined> {
+    const file = document.uri.fsPath;
+    const localTodos = filterEditorTodos(await this.store.getLineTodos('local', file, position.line));
+    const remoteTodos = filterEditorTodos(this.store.filterVisibleTodos(
+      await this.store.getLineTodos('remote', file, position.line),
+      file
+    ));
+    const todos = [...localTodos, ...remoteTodos];
+    if (todos.length === 0) return undefined;
+
+    const content = new vscode.MarkdownString();
+    content.supportHtml = true;
+    // Links may only run the hover action command, even in untrusted workspaces nothing else is enabled
+    content.isTrusted = { enabledCommands: [HOVER_ACTION_COMMAND] };
+
+    todos.forEach((todo, index) => {
+      if (index > 0) {
+        content.appendMarkdown('\n\n---\n\n');
+      }
+      appendTodo(content, todo);
+    });
+
+    const line = document.lineAt(position.line);
+    return new vscode.Hover(content, new vscode.Range(position.line, 0, position.line, line.text.length));
+  }
+}
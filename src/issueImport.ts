@@ -0,0 +1,242 @@
+// Parsers for issue lists saved from GitHub, GitLab or a spreadsheet, turned into remote todos.
+// Everything is read from the saved file, no tracker is contacted.
+import type { ExternalRef, Todo, TodoStatus, User } from './core';
+
+export type IssueFormat = 'github' | 'gitlab' | 'csv';
+
+export const ISSUE_FORMAT_LABELS: Record<IssueFormat, string> = {
+  github: 'GitHub issues (JSON)',
+  gitlab: 'GitLab issues (JSON)',
+  csv: 'CSV'
+};
+
+export interface ImportedIssue {
+  ref: ExternalRef;
+  title: string;
+  closed: boolean;
+  labels: string[];
+  assignees: string[]; // Logins, names or emails as written in the export
+  createdAt?: string;
+  dueDate?: string; // YYYY-MM-DD
+}
+
+// Parsed from an untrusted file, every field is checked before it is used
+type JsonObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Field of a nested object, e.g. the due date of a milestone
+function fieldOf(value: unknown, key: string): unknown {
+  return isObject(value) ? value[key] : undefined;
+}
+
+function asString(value: unknown): string | undefined {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  if (typeof value === 'number') return String(value);
+  return undefined;
+}
+
+function toDate(value: unknown): string | undefined {
+  const text = asString(value);
+  return text && /^\d{4}-\d{2}-\d{2}/.test(text) ? text.slice(0, 10) : undefined;
+}
+
+// Both the REST API ("labels": [{ "name" }]) and plain string lists
+function namesOf(values: unknown, ...keys: string[]): string[] {
+  if (!Array.isArray(values)) return [];
+  return values
+    .map(value => isObject(value)
+      ? keys.map(key => asString(value[key])).find(Boolean)
+      : asString(value))
+    .filter((name): name is string => !!name);
+}
+
+function parseJsonList(content: string): JsonObject[] {
+  const data: unknown = JSON.parse(content);
+  // Some exports wrap the list, e.g. { "issues": [...] }
+  const list = Array.isArray(data) ? data : fieldOf(data, 'issues');
+  if (!Array.isArray(list)) {
+    throw new Error('The file does not contain a list of issues');
+  }
+  return list.filter(isObject);
+}
+
+// REST API responses and `gh issue list --json` output
+export function parseGitHubIssues(content: string): ImportedIssue[] {
+  return parseJsonList(content)
+    .filter(issue => !issue.pull_request && asString(issue.number) && asString(issue.title))
+    .map(issue => ({
+      ref: { tracker: 'GitHub', number: asString(issue.number)!, ...(asString(issue.html_url || issue.url) ? { url: asString(issue.html_url || issue.url) } : {}) },
+      title: asString(issue.title)!,
+      closed: String(issue.state).toLowerCase() === 'closed',
+      labels: namesOf(issue.labels, 'name'),
+      assignees: namesOf(issue.assignees || (issue.assignee ? [issue.assignee] : []), 'login', 'name'),
+      createdAt: asString(issue.created_at || issue.createdAt),
+      dueDate: toDate(fieldOf(issue.milestone, 'due_on') || fieldOf(issue.milestone, 'dueOn'))
+    }));
+}
+
+// Issues API responses, numbered by the project-wide "iid"
+export function parseGitLabIssues(content: string): ImportedIssue[] {
+  return parseJsonList(content)
+    .filter(issue => asString(issue.iid ?? issue.id) && asString(issue.title))
+    .map(issue => ({
+      ref: { tracker: 'GitLab', number: asString(issue.iid ?? issue.id)!, ...(asString(issue.web_url) ? { url: asString(issue.web_url) } : {}) },
+      title: asString(issue.title)!,
+      closed: String(issue.state).toLowerCase() === 'closed',
+      labels: namesOf(issue.labels, 'name', 'title'),
+      assignees: namesOf(issue.assignees || (issue.assignee ? [issue.assignee] : []), 'username', 'name'),
+      createdAt: asString(issue.created_at),
+      dueDate: toDate(issue.due_date)
+    }));
+}
+
+// RFC 4180 fields: quoted values may contain commas, quotes ("") and line breaks
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+// Accepted CSV column names, matched case-insensitively
+const CSV_COLUMNS: Record<string, string[]> = {
+  number: ['number', 'issue', 'iid', 'id', 'key'],
+  title: ['title', 'summary', 'subject'],
+  url: ['url', 'link', 'web_url', 'html_url'],
+  state: ['state', 'status'],
+  labels: ['labels', 'label', 'tags'],
+  assignees: ['assignees', 'assignee'],
+  tracker: ['tracker', 'source'],
+  createdAt: ['created', 'created_at', 'createdat'],
+  dueDate: ['due', 'due_date', 'duedate']
+};
+
+const CLOSED_STATES = ['closed', 'done', 'resolved', 'fixed'];
+
+// A header row with at least a number and a title column; lists in cells are separated by ";" or ","
+export function parseCsvIssues(content: string, defaultTracker: string = 'Issue'): ImportedIssue[] {
+  const [header, ...rows] = parseCsvRows(content.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+
+  const columns = header.map(name => name.trim().toLowerCase());
+  const indexOf = (field: string) => columns.findIndex(name => CSV_COLUMNS[field].includes(name));
+  const cell = (row: string[], field: string) => {
+    const index = indexOf(field);
+    return index === -1 ? undefined : asString(row[index]);
+  };
+  const list = (row: string[], field: string) => (cell(row, field) || '').split(/[;,]/).map(value => value.trim()).filter(Boolean);
+
+  if (indexOf('number') === -1 || indexOf('title') === -1) {
+    throw new Error('The CSV file needs a header row with "number" and "title" columns');
+  }
+
+  return rows
+    .filter(row => cell(row, 'number') && cell(row, 'title'))
+    .map(row => {
+      const url = cell(row, 'url');
+      return {
+        ref: { tracker: cell(row, 'tracker') || defaultTracker, number: cell(row, 'number')!.replace(/^#/, ''), ...(url ? { url } : {}) },
+        title: cell(row, 'title')!,
+        closed: CLOSED_STATES.includes((cell(row, 'state') || '').toLowerCase()),
+        labels: list(row, 'labels'),
+        assignees: list(row, 'assignees'),
+        createdAt: cell(row, 'createdAt'),
+        dueDate: toDate(cell(row, 'dueDate'))
+      };
+    });
+}
+
+// GitLab issues carry an "iid", GitHub issues do not
+export function detectIssueFormat(fileName: string, content: string): IssueFormat {
+  if (fileName.toLowerCase().endsWith('.csv')) return 'csv';
+  try {
+    const [first] = parseJsonList(content);
+    return first && ('iid' in first || 'web_url' in first) ? 'gitlab' : 'github';
+  } catch (error) {
+    return 'csv';
+  }
+}
+
+export function parseIssues(format: IssueFormat, content: string): ImportedIssue[] {
+  if (format === 'github') return parseGitHubIssues(content);
+  if (format === 'gitlab') return parseGitLabIssues(content);
+  return parseCsvIssues(content);
+}
+
+export function isSameExternalRef(a: ExternalRef | undefined, b: ExternalRef): boolean {
+  return !!a && a.tracker.toLowerCase() === b.tracker.toLowerCase() && a.number === b.number;
+}
+
+// Team member behind a tracker login: same email, email name or display name
+export function matchTeamMember(assignee: string, team: User[]): User | undefined {
+  const key = assignee.toLowerCase().replace(/^@/, '');
+  return team.find(member =>
+    member.email.toLowerCase() === key ||
+    member.email.toLowerCase().split('@')[0] === key ||
+    member.name.toLowerCase() === key
+  );
+}
+
+// Labels must fit the "#label" syntax, e.g. "good first issue" becomes "good-first-issue"
+function toTodoLabel(label: string): string | undefined {
+  const normalized = label.trim().replace(/\s+/g, '-').replace(/[^\w-]/g, '');
+  return /^[A-Za-z][\w-]*$/.test(normalized) ? normalized : undefined;
+}
+
+// The remote todo for an issue, without file and line, which the caller decides
+export function issueToTodo(issue: ImportedIssue, author: User, team: User[], now: string): Omit<Todo, 'file' | 'line'> {
+  const labels = Array.from(new Set(issue.labels.map(toTodoLabel).filter((label): label is string => !!label)));
+  const assignees = issue.assignees
+    .map(assignee => matchTeamMember(assignee, team))
+    .filter((member, index, members): member is User => !!member && members.findIndex(other => other?.email === member.email) === index);
+  const status: TodoStatus = issue.closed ? 'done' : 'open';
+
+  return {
+    type: 'remote',
+    message: issue.title,
+    id: `remote-${issue.ref.tracker.toLowerCase()}-${issue.ref.number}-${Date.now()}`,
+    author,
+    assignees,
+    ...(status === 'done' ? { status } : {}),
+    ...(labels.length > 0 ? { labels } : {}),
+    ...(issue.dueDate ? { dueDate: issue.dueDate } : {}),
+    externalRef: issue.ref,
+    createdAt: issue.createdAt || now,
+    updatedAt: now
+  };
+}
@@ -0,0 +1,248 @@
+// Git merge driver for remote TODO files (.remotetodos.json or .todos/ shards), run by git as: node mergeDriver.js %O %A %B
+// It only depends on the editor-agnostic core, so it runs under plain Node without VS Code.
+import * as fs from 'fs';
+import * as path from 'path';
+import { execFileSync } from 'child_process';
+import type { DiscussionComment, Todo, TodoHistoryEntry, User } from './core';
+
+export const MERGE_DRIVER_NAME = 'awesometodo';
+// .gitattributes patterns of the single-file and the sharded storage layout, with its file of unresolved TODOs
+export const MERGE_DRIVER_FILES = ['.remotetodos.json', '**/.todos/**/*.json', '**/.todos/.unresolved'];
+
+// Fields merged separately instead of being taken from one side
+const SPECIAL_FIELDS = ['id', 'assignees', 'history', 'comments', 'updatedAt'];
+
+function todoKey(todo: Todo): string {
+  return todo.id || `${todo.file}:${todo.line}:${todo.message}`;
+}
+
+function isSame(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function updatedTime(todo: Todo): number {
+  return todo.updatedAt ? Date.parse(todo.updatedAt) || 0 : 0;
+}
+
+// Assignees of both sides, except the ones of the ancestor that either side unassigned
+function mergeAssignees(base: User[] = [], ours: User[] = [], theirs: User[] = []): User[] {
+  const isIn = (users: User[], user: User) => users.some(existing => existing.email === user.email);
+  const removed = base.filter(user => !isIn(ours, user) || !isIn(theirs, user));
+  const merged: User[] = [];
+  for (const user of [...ours, ...theirs]) {
+    if (!isIn(merged, user) && !isIn(removed, user)) {
+      merged.push(user);
+    }
+  }
+  return merged;
+}
+
+function unionHistory(ours: TodoHistoryEntry[] = [], theirs: TodoHistoryEntry[] = []): TodoHistoryEntry[] {
+  const merged = [...ours];
+  for (const entry of theirs) {
+    if (!merged.some(existing => isSame(existing, entry))) {
+      merged.push(entry);
+    }
+  }
+  return merged.sort((a, b) => a.at.localeCompare(b.at));
+}
+
+function commentTime(comment: DiscussionComment): string {
+  return comment.editedAt || comment.createdAt;
+}
+
+// Comments of both sides by id, a comment edited on both sides keeps the latest edit.
+// A comment deleted on one side is dropped unless the other side edited it.
+function mergeComments(base: DiscussionComment[] = [], ours: DiscussionComment[] = [], theirs: DiscussionComment[] = []): DiscussionComment[] {
+  const merged: DiscussionComment[] = [];
+  const ids = new Set([...ours, ...theirs].map(comment => comment.id));
+
+  for (const id of ids) {
+    const baseComment = base.find(comment => comment.id === id);
+    const ourComment = ours.find(comment => comment.id === id);
+    const theirComment = theirs.find(comment => comment.id === id);
+
+    if (ourComment && theirComment) {
+      merged.push(commentTime(theirComment) > commentTime(ourComment) ? theirComment : ourComment);
+    } else {
+      const comment = (ourComment || theirComment)!;
+      if (!baseComment || !isSame(comment, baseComment)) {
+        merged.push(comment);
+      }
+    }
+  }
+  return merged.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+// Merge a todo changed on both sides, field by field against the common ancestor
+function mergeTodo(base: Todo | undefined, ours: Todo, theirs: Todo): Todo {
+  const theirsIsNewer = updatedTime(theirs) > updatedTime(ours);
+  const merged: Record<string, unknown> = { ...ours };
+  const fields = new Set([...Object.keys(ours), ...Object.keys(theirs)]);
+
+  for (const field of fields) {
+    if (SPECIAL_FIELDS.includes(field)) continue;
+
+    const baseValue = base ? (base as unknown as Record<string, unknown>)[field] : undefined;
+    const ourValue = (ours as unknown as Record<string, unknown>)[field];
+    const theirValue = (theirs as unknown as Record<string, unknown>)[field];
+
+    // Only they changed it, or both changed it and theirs is the newest edit
+    const takeTheirs = isSame(ourValue, baseValue) || (!isSame(theirValue, baseValue) && theirsIsNewer);
+    const value = takeTheirs ? theirValue : ourValue;
+    if (value === undefined) {
+      delete merged[field];
+    } else {
+      merged[field] = value;
+    }
+  }
+
+  const result = merged as unknown as Todo;
+  result.id = ours.id;
+  const assignees = mergeAssignees(base?.assignees, ours.assignees, theirs.assignees);
+  if (ours.assignees || theirs.assignees) result.assignees = assignees;
+  const history = unionHistory(ours.history, theirs.history);
+  if (history.length > 0) result.history = history;
+  const comments = mergeComments(base?.comments, ours.comments, theirs.comments);
+  if (comments.length > 0) {
+    result.comments = comments;
+  } else {
+    delete result.comments;
+  }
+  const updatedAt = theirsIsNewer ? theirs.updatedAt : ours.updatedAt;
+  if (updatedAt) result.updatedAt = updatedAt;
+  return result;
+}
+
+// Three-way merge of todo lists by id. Ours keeps its order, todos added by them are appended.
+export function mergeTodoLists(base: Todo[], ours: Todo[], theirs: Todo[]): Todo[] {
+  const baseByKey = new Map(base.map(todo => [todoKey(todo), todo]));
+  const theirsByKey = new Map(theirs.map(todo => [todoKey(todo), todo]));
+  const oursByKey = new Map(ours.map(todo => [todoKey(todo), todo]));
+  const result: Todo[] = [];
+
+  for (const todo of ours) {
+    const key = todoKey(todo);
+    const baseTodo = baseByKey.get(key);
+    const theirTodo = theirsByKey.get(key);
+
+    if (theirTodo) {
+      result.push(mergeTodo(baseTodo, todo, theirTodo));
+    } else if (!baseTodo || !isSame(todo, baseTodo)) {
+      // Added by us, or removed by them after we edited it: an edit wins over a removal
+      result.push(todo);
+    }
+  }
+
+  for (const todo of theirs) {
+    const key = todoKey(todo);
+    if (oursByKey.has(key)) continue;
+
+    const baseTodo = baseByKey.get(key);
+    if (!baseTodo || !isSame(todo, baseTodo)) {
+      result.push(todo);
+    }
+  }
+
+  return result;
+}
+
+function readTodoFile(filePath: string): Todo[] {
+  const content = fs.readFileSync(filePath, 'utf8');
+  // The ancestor is an empty file when both sides added .remotetodos.json
+  if (content.trim().length === 0) return [];
+
+  const todos = JSON.parse(content);
+  if (!Array.isArray(todos)) {
+    throw new Error(`${filePath} does not contain a TODO list`);
+  }
+  return todos;
+}
+
+// Where installMergeDriver copies the driver, inside the git directory. Extensions are updated into
+// a new versioned directory, so .git/config must not point at the extension itself.
+const INSTALLED_DRIVER = path.join(MERGE_DRIVER_NAME, 'mergeDriver.js');
+
+function runGit(repositoryPath: string, ...args: string[]): string {
+  return execFileSync('git', args, { cwd: repositoryPath, encoding: 'utf8', stdio: ['ignore', 'pipe', 'ignore'] }).trim();
+}
+
+function getInstalledDriverPath(repositoryPath: string): string {
+  // The common directory is shared by all worktrees, like .git/config
+  return path.join(path.resolve(repositoryPath, runGit(repositoryPath, 'rev-parse', '--git-common-dir')), INSTALLED_DRIVER);
+}
+
+function getDriverCommand(driverPath: string): string {
+  return `node "${driverPath.replace(/\\/g, '/')}" %O %A %B`;
+}
+
+// Copy the driver script into the git directory and register the copy in .git/config
+function registerDriver(repositoryPath: string, scriptPath: string): void {
+  const driverPath = getInstalledDriverPath(repositoryPath);
+  fs.mkdirSync(path.dirname(driverPath), { recursive: true });
+  fs.copyFileSync(scriptPath, driverPath);
+
+  runGit(repositoryPath, 'config', `merge.${MERGE_DRIVER_NAME}.name`, 'Awesome-TODO merge driver for remote TODOs');
+  runGit(repositoryPath, 'config', `merge.${MERGE_DRIVER_NAME}.driver`, getDriverCommand(driverPath));
+}
+
+// Register the driver in .git/config and route the TODO files to it in .gitattributes
+export function installMergeDriver(repositoryPath: string, scriptPath: string): void {
+  const root = runGit(repositoryPath, 'rev-parse', '--show-toplevel');
+  registerDriver(repositoryPath, scriptPath);
+
+  const attributesFile = path.join(root, '.gitattributes');
+  const attributes = fs.existsSync(attributesFile) ? fs.readFileSync(attributesFile, 'utf8') : '';
+  const missing = MERGE_DRIVER_FILES
+    .map(file => `${file} merge=${MERGE_DRIVER_NAME}`)
+    .filter(line => !attributes.split(/\r?\n/).some(existing => existing.trim() === line));
+
+  if (missing.length > 0) {
+    const separator = attributes.length > 0 && !attributes.endsWith('\n') ? '\n' : '';
+    fs.writeFileSync(attributesFile, attributes + separator + missing.join('\n') + '\n');
+  }
+}
+
+// Re-register a driver whose copy is older than scriptPath or that still points elsewhere, e.g. at
+// the directory of a previous extension version. Repositories without the driver are left alone.
+// Returns true when the driver was updated.
+export function updateMergeDriver(repositoryPath: string, scriptPath: string): boolean {
+  let configured: string;
+  try {
+    configured = runGit(repositoryPath, 'config', '--get', `merge.${MERGE_DRIVER_NAME}.driver`);
+  } catch (error) {
+    return false; // Not registered, or not a git repository
+  }
+
+  const driverPath = getInstalledDriverPath(repositoryPath);
+  const upToDate = configured === getDriverCommand(driverPath) &&
+    fs.existsSync(driverPath) &&
+    fs.readFileSync(driverPath).equals(fs.readFileSync(scriptPath));
+  if (upToDate) return false;
+
+  registerDriver(repositoryPath, scriptPath);
+  return true;
+}
+
+function main(args: string[]): number {
+  if (args.length < 3) {
+    console.error('Usage: node mergeDriver.js <ancestor> <current> <other>');
+    return 2;
+  }
+
+  const [basePath, oursPath, theirsPath] = args;
+  try {
+    const merged = mergeTodoLists(readTodoFile(basePath), readTodoFile(oursPath), readTodoFile(theirsPath));
+    // Git expects the result in the "current" file
+    fs.writeFileSync(oursPath, JSON.stringify(merged, null, 2));
+    return 0;
+  } catch (error) {
+    // A non-zero exit makes git leave a regular conflict to resolve by hand
+    console.error(`Awesome-TODO merge driver failed: ${error}`);
+    return 1;
+  }
+}
+
+if (require.main === module) {
+  process.exit(main(process.argv.slice(2)));
+}
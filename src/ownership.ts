@@ -0,0 +1,145 @@
+// Who is likely to own a piece of code: the authors of the lines around it and the CODEOWNERS
+// entry of its file. Used to suggest assignees for remote TODOs.
+import * as fs from 'fs';
+import * as path from 'path';
+import type { User } from './core';
+import { blameLines, LineAuthor } from './gitHistory';
+import { findRosterMember, getIdentityEmails, rosterMemberToUser, RosterMember } from './roster';
+
+const CODEOWNERS_LOCATIONS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+// Lines blamed above and below the TODO
+export const BLAME_WINDOW = 10;
+
+// Suggestions shown ahead of the team list when assigning
+export const MAX_ASSIGNEE_SUGGESTIONS = 3;
+
+// A line changed today counts 1, half as much every RECENCY_HALF_LIFE_DAYS since
+const RECENCY_HALF_LIFE_DAYS = 180;
+const DAY = 24 * 60 * 60 * 1000;
+
+// Being a code owner of the file is worth as much as this many freshly changed lines
+const CODE_OWNER_WEIGHT = 5;
+
+export interface CodeOwnersRule {
+  pattern: RegExp;
+  owners: string[]; // "@user", "@org/team" or email addresses
+}
+
+// gitignore-style pattern of a CODEOWNERS line as a regular expression over workspace-relative paths
+function patternToRegExp(pattern: string): RegExp {
+  const directoryOnly = pattern.endsWith('/');
+  const trimmed = pattern.replace(/^\//, '').replace(/\/$/, '');
+  const anchored = pattern.startsWith('/') || trimmed.includes('/');
+
+  let source = '';
+  for (let i = 0; i < trimmed.length; i++) {
+    const char = trimmed[i];
+    if (trimmed.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (trimmed.startsWith('**', i)) {
+      source += '.*';
+      i += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  // A pattern matches the path itself or a directory containing it
+  return new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}${directoryOnly ? '/.*' : '(?:/.*)?'}$`);
+}
+
+export function parseCodeOwners(content: string): CodeOwnersRule[] {
+  return content.split(/\r?\n/)
+    .map(line => line.replace(/(^|\s)#.*$/, '').trim())
+    .filter(line => line.length > 0)
+    .map(line => {
+      const [pattern, ...owners] = line.split(/\s+/);
+      return { pattern: patternToRegExp(pattern), owners };
+    });
+}
+
+// The CODEOWNERS rules of the repository, none without a CODEOWNERS file
+export function readCodeOwners(root: string): CodeOwnersRule[] {
+  const location = CODEOWNERS_LOCATIONS.map(file => path.join(root, file)).find(file => fs.existsSync(file));
+  return location ? parseCodeOwners(fs.readFileSync(location, 'utf8')) : [];
+}
+
+// Owners of a workspace-relative path, as in GitHub the last matching rule wins
+export function findCodeOwners(rules: CodeOwnersRule[], relativePath: string): string[] {
+  const rule = [...rules].reverse().find(candidate => candidate.pattern.test(relativePath));
+  return rule ? rule.owners : [];
+}
+
+export interface AssigneeSuggestion {
+  user: User;
+  lines: number; // Lines near the TODO they changed last
+  lastChange?: number; // ms
+  codeOwner: boolean;
+  score: number;
+}
+
+// Rank the people behind the blamed lines and the code owners, best suggestion first. People are
+// merged across their roster aliases and shown under their roster or team name. Code owners given
+// by GitHub handle are only known through the roster; teams ("@org/team") are not resolved.
+export function rankAssignees(
+  authors: LineAuthor[],
+  codeOwners: string[],
+  team: User[],
+  roster: RosterMember[],
+  now: number = Date.now()
+): AssigneeSuggestion[] {
+  const suggestions = new Map<string, AssigneeSuggestion>();
+
+  const resolve = (user: User): AssigneeSuggestion => {
+    const key = getIdentityEmails(roster, user.email)[0];
+    let suggestion = suggestions.get(key);
+    if (!suggestion) {
+      const member = findRosterMember(roster, user.email);
+      const teamMember = team.find(candidate => candidate.email.toLowerCase() === user.email.toLowerCase());
+      const assignee = member ? rosterMemberToUser(member) : teamMember || { name: user.name, email: user.email };
+      suggestion = { user: assignee, lines: 0, codeOwner: false, score: 0 };
+      suggestions.set(key, suggestion);
+    }
+    return suggestion;
+  };
+
+  for (const author of authors) {
+    const suggestion = resolve(author);
+    const ageDays = Math.max(0, now - author.time) / DAY;
+    suggestion.lines++;
+    suggestion.score += Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+    suggestion.lastChange = Math.max(suggestion.lastChange || 0, author.time);
+  }
+
+  for (const owner of codeOwners) {
+    const member = owner.startsWith('@') ? findRosterMember(roster, owner) : undefined;
+    const email = member ? member.emails[0] : owner.includes('@') && !owner.startsWith('@') ? owner : undefined;
+    if (!email) continue;
+
+    const suggestion = resolve({ name: member?.name || email, email });
+    if (!suggestion.codeOwner) {
+      suggestion.codeOwner = true;
+      suggestion.score += CODE_OWNER_WEIGHT;
+    }
+  }
+
+  return Array.from(suggestions.values()).sort((a, b) => b.score - a.score || a.user.name.localeCompare(b.user.name));
+}
+
+// Suggested assignees for a TODO at line of filePath, from git blame around the line and the
+// CODEOWNERS rules of root. The caller reads the rules, so it can report a file it can not read.
+export function suggestAssignees(root: string, filePath: string, line: number, team: User[], roster: RosterMember[], rules: CodeOwnersRule[]): AssigneeSuggestion[] {
+  // Blame reads the file on disk, which counts its lines without a trailing line break
+  const content = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : '';
+  const lineCount = content.split('\n').length - (content.endsWith('\n') ? 1 : 0);
+  const start = Math.max(0, Math.min(line, lineCount - 1) - BLAME_WINDOW);
+  const end = Math.min(lineCount - 1, line + BLAME_WINDOW);
+  const authors = end >= start ? blameLines(root, filePath, start, end) : [];
+  const relativePath = path.relative(root, filePath).split(path.sep).join('/');
+  return rankAssignees(authors, findCodeOwners(rules, relativePath), team, roster);
+}
@@ -1,11 +1,16 @@
 import * as vscode from 'vscode';
-import { loadTodos, loadRemoteTodos, filterVisibleRemoteTodos, getGitUserInfo, Todo } from './utils';
+import { findTodoComments } from './commentSyntax';
+import { getTagDefinition } from './tags';
+import { TodoStore } from './todoStore';
+import { filterEditorTodos, Todo } from './utils';
 
 export class TodoCodeActionProvider implements vscode.CodeActionProvider {
   public static readonly providedCodeActionKinds = [
     vscode.CodeActionKind.QuickFix
   ];
 
+  constructor(private readonly store: TodoStore) {}
+
   async provideCodeActions(
     document: vscode.TextDocument,
     range: vscode.Range,
@@ -16,8 +21,8 @@ export class TodoCodeActionProvider implements vscode.CodeActionProvider {
     const text = line.text.trim();
     const actions: vscode.CodeAction[] = [];
 
-    // Detect //TODO or #TODO in comments (with optional : or -)
-    if (/^((\/\/)|#)\s*TODO[:\-]?\s*/i.test(text)) {
+    // Detect TODO comments using the language's comment syntax
+    if (findTodoComments(document, line.lineNumber).length > 0) {
       const localAction = new vscode.CodeAction(
         'Convert to Local TODO',
         vscode.CodeActionKind.QuickFix
@@ -44,8 +49,7 @@ export class TodoCodeActionProvider implements vscode.CodeActionProvider {
     }
 
     // Check if this file has any stored local todos for editing
-    const localTodos = await loadTodos(document.uri.fsPath);
-    const fileLocalTodos = localTodos.filter(todo => todo.file === document.uri.fsPath);
+    const fileLocalTodos = filterEditorTodos(await this.store.getFileTodos('local', document.uri.fsPath));
 
     if (fileLocalTodos.length > 0) {
       // Check if this specific line has any local todos
@@ -65,7 +69,18 @@ export class TodoCodeActionProvider implements vscode.CodeActionProvider {
             arguments: [document, line.lineNumber, lineLocalTodos[0]]
           };
 
-          actions.push(editAction);
+          const statusAction = new vscode.CodeAction(
+            'Change TODO Status',
+            vscode.CodeActionKind.QuickFix
+          );
+
+          statusAction.command = {
+            command: 'awesomeTodo.setStatus',
+            title: 'Change TODO Status',
+            arguments: [document, line.lineNumber, lineLocalTodos[0]]
+          };
+
+          actions.push(editAction, statusAction);
         } else {
           // Multiple local todos on this line - show selection
           const editAction = new vscode.CodeAction(
@@ -99,10 +114,10 @@ export class TodoCodeActionProvider implements vscode.CodeActionProvider {
     }
 
     // Check if this file has any stored remote todos for editing (filtered by user visibility)
-    const userInfo = getGitUserInfo();
+    const userInfo = this.store.getUser(document.uri.fsPath);
     if (userInfo) {
-      const allRemoteTodos = await loadRemoteTodos(document.uri.fsPath);
-      const visibleRemoteTodos = filterVisibleRemoteTodos(allRemoteTodos, userInfo.email).filter(todo => todo.file === document.uri.fsPath);
+      const fileRemoteTodos = await this.store.getFileTodos('remote', document.uri.fsPath);
+      const visibleRemoteTodos = filterEditorTodos(this.store.filterVisibleTodos(fileRemoteTodos, document.uri.fsPath));
 
       if (visibleRemoteTodos.length > 0) {
         // Check if this specific line has any remote todos
@@ -133,7 +148,19 @@ export class TodoCodeActionProvider implements vscode.CodeActionProvider {
               arguments: [document, line.lineNumber, lineRemoteTodos[0]]
             };
 
-            actions.push(editAction, assignAction);
+            const statusAction = new vscode.CodeAction(
+              'Change TODO Status',
+              vscode.CodeActionKind.QuickFix
+            );
+
+            statusAction.command = {
+              command: 'awesomeTodo.setStatus',
+              title: 'Change TODO Status',
+              arguments: [document, line.lineNumber, lineRemoteTodos[0]]
+            };
+
+            const assignable = getTagDefinition(lineRemoteTodos[0].kind).assignable;
+            actions.push(editAction, ...(assignable ? [assignAction] : []), statusAction);
           } else {
             // Multiple remote todos on this line - show selection (simplified for now)
             const editAction = new vscode.CodeAction(
@@ -0,0 +1,86 @@
+// Shared team roster, committed with the code so the whole team works from the same list. A member
+// may use several email addresses; TODOs assigned to any of them belong to the same person.
+import * as fs from 'fs';
+import * as path from 'path';
+import type { User } from './core';
+
+export const ROSTER_FILE = '.awesomeroster.json';
+
+export type TeamRole = 'lead' | 'reviewer';
+
+export const TEAM_ROLES: TeamRole[] = ['lead', 'reviewer'];
+
+export interface RosterMember {
+  name: string; // Display name
+  emails: string[]; // Git identities of the member, the first one is used for new assignments
+  github?: string; // Handle without "@"
+  roles?: TeamRole[];
+}
+
+function asEmails(value: unknown): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values.filter((email): email is string => typeof email === 'string' && email.includes('@')).map(email => email.trim());
+}
+
+// Entries without a name or an email are dropped, "email" is accepted for a single address
+function normalizeRoster(value: unknown): RosterMember[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter((entry): entry is Record<string, unknown> => typeof entry === 'object' && entry !== null)
+    .map(entry => ({
+      name: typeof entry.name === 'string' ? entry.name.trim() : '',
+      emails: asEmails(entry.emails ?? entry.email),
+      ...(typeof entry.github === 'string' && entry.github.trim() ? { github: entry.github.trim().replace(/^@/, '') } : {}),
+      ...(Array.isArray(entry.roles) ? { roles: TEAM_ROLES.filter(role => (entry.roles as unknown[]).includes(role)) } : {})
+    }))
+    .filter(member => member.name && member.emails.length > 0);
+}
+
+// The members of the shared roster, or undefined when the repository has none. Errors are thrown to the caller.
+export function readRoster(root: string): RosterMember[] | undefined {
+  const rosterPath = path.join(root, ROSTER_FILE);
+  if (!fs.existsSync(rosterPath)) {
+    return undefined;
+  }
+  const data = JSON.parse(fs.readFileSync(rosterPath, 'utf8'));
+  return normalizeRoster(Array.isArray(data) ? data : data?.members);
+}
+
+export function writeRoster(root: string, members: RosterMember[]): void {
+  fs.writeFileSync(path.join(root, ROSTER_FILE), JSON.stringify({ members }, null, 2) + '\n');
+}
+
+// Member behind an email address, GitHub handle or display name
+export function findRosterMember(roster: RosterMember[], identity: string): RosterMember | undefined {
+  const key = identity.trim().toLowerCase();
+  return roster.find(member => member.emails.some(email => email.toLowerCase() === key))
+    || roster.find(member => member.github?.toLowerCase() === key.replace(/^@/, ''))
+    || roster.find(member => member.name.toLowerCase() === key);
+}
+
+// Every email address of the person using this one, in lower case
+export function getIdentityEmails(roster: RosterMember[], email: string): string[] {
+  const key = email.trim().toLowerCase();
+  const member = roster.find(candidate => candidate.emails.some(alias => alias.toLowerCase() === key));
+  return member ? member.emails.map(alias => alias.toLowerCase()) : [key];
+}
+
+export function isSameIdentity(roster: RosterMember[], a: string, b: string): boolean {
+  return getIdentityEmails(roster, a).includes(b.trim().toLowerCase());
+}
+
+export function rosterMemberToUser(member: RosterMember): User {
+  return { name: member.name, email: member.emails[0] };
+}
+
+// A starting roster from a personal team list, one member per person
+export function createRoster(team: User[]): RosterMember[] {
+  return team.reduce<RosterMember[]>((members, user) => {
+    const existing = findRosterMember(members, user.email);
+    if (!existing) {
+      members.push({ name: user.name, emails: [user.email] });
+    }
+    return members;
+  }, []);
+}
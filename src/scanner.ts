@@ -0,0 +1,93 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { execSync } from 'child_process';
+import { CommentScanner, TodoComment } from './commentSyntax';
+import { ROSTER_FILE } from './roster';
+import { REMOTE_TODO_FILE, SHARD_DIRECTORY } from './storage';
+import { getTagNames } from './tags';
+
+// Files larger than this are skipped, they are most likely generated or binary
+const MAX_FILE_SIZE = 1024 * 1024;
+
+export interface ScannedTodoComment {
+  uri: vscode.Uri;
+  line: number;
+  comment: TodoComment;
+}
+
+// Files of the folder that git does not ignore, or undefined when the folder is not a git repository
+function listGitFiles(folder: vscode.WorkspaceFolder): Set<string> | undefined {
+  try {
+    const output = execSync('git ls-files --cached --others --exclude-standard -z', {
+      cwd: folder.uri.fsPath,
+      encoding: 'utf8',
+      maxBuffer: 64 * 1024 * 1024
+    });
+    return new Set(
+      output.split('\0').filter(Boolean).map(file => path.join(folder.uri.fsPath, file))
+    );
+  } catch (error) {
+    return undefined;
+  }
+}
+
+async function mightContainTags(filePath: string, tagPattern: RegExp): Promise<boolean> {
+  try {
+    const stats = await fs.promises.stat(filePath);
+    if (!stats.isFile() || stats.size > MAX_FILE_SIZE) return false;
+
+    const content = await fs.promises.readFile(filePath, 'utf8');
+    return !content.includes('\0') && tagPattern.test(content);
+  } catch (error) {
+    return false;
+  }
+}
+
+// Find TODO-like comments in all workspace files, honouring .gitignore and files.exclude
+export async function scanWorkspaceForTodoComments(
+  progress: vscode.Progress<{ message?: string; increment?: number }>,
+  token: vscode.CancellationToken
+): Promise<ScannedTodoComment[]> {
+  const results: ScannedTodoComment[] = [];
+  const tags = getTagNames();
+  // Only picks the files worth scanning, CommentScanner decides what counts as a tag
+  const tagPattern = new RegExp(`\\b(${tags.join('|')})\\b`, 'i');
+  const ignoredStorageFiles = ['.localtodos.json', REMOTE_TODO_FILE, '.awesometeam.json', ROSTER_FILE];
+
+  for (const folder of vscode.workspace.workspaceFolders || []) {
+    // Passing undefined as exclude applies the files.exclude setting
+    const uris = await vscode.workspace.findFiles(new vscode.RelativePattern(folder, '**/*'), undefined, undefined, token);
+    const gitFiles = listGitFiles(folder);
+    const shardDirectory = path.join(folder.uri.fsPath, SHARD_DIRECTORY) + path.sep;
+    const candidates = uris.filter(uri =>
+      (!gitFiles || gitFiles.has(uri.fsPath)) &&
+      !ignoredStorageFiles.includes(path.basename(uri.fsPath)) &&
+      !uri.fsPath.startsWith(shardDirectory)
+    );
+
+    for (let i = 0; i < candidates.length; i++) {
+      if (token.isCancellationRequested) return results;
+
+      const uri = candidates[i];
+      progress.report({
+        message: vscode.workspace.asRelativePath(uri),
+        increment: 100 / (candidates.length * (vscode.workspace.workspaceFolders?.length || 1))
+      });
+
+      if (!(await mightContainTags(uri.fsPath, tagPattern))) continue;
+
+      const document = await vscode.workspace.openTextDocument(uri);
+      const scanner = new CommentScanner(document.languageId, tags);
+      for (let line = 0; line < document.lineCount; line++) {
+        for (const comment of scanner.scanLine(document.lineAt(line).text)) {
+          if (comment.message) {
+            results.push({ uri, line, comment });
+          }
+        }
+      }
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,211 @@
+// Storage layouts for remote TODOs. Paths in here are the stored, workspace-relative ones.
+// Only types are imported from core, which builds on these layouts, so they work without VS Code.
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Todo } from './core';
+
+// 'file': everything in .remotetodos.json, 'sharded': one file per source file under .todos/
+export type RemoteStorageLayout = 'file' | 'sharded';
+
+export const REMOTE_TODO_FILE = '.remotetodos.json';
+export const SHARD_DIRECTORY = '.todos';
+
+// TODOs whose file lies outside the workspace folder. Without the .json suffix of shards, no source
+// file's shard can have this path.
+export const UNRESOLVED_FILE = '.unresolved';
+// Where earlier versions kept them, which is also the shard of a source file named ".unresolved"
+const LEGACY_UNRESOLVED_SHARD = '.unresolved.json';
+// Keeps the directory, and so the layout, in git while there are no TODOs
+const KEEP_FILE = '.gitkeep';
+
+export const STORAGE_LAYOUT_LABELS: Record<RemoteStorageLayout, string> = {
+  file: `Single file (${REMOTE_TODO_FILE})`,
+  sharded: `One file per source file (${SHARD_DIRECTORY}/)`
+};
+
+export interface RemoteTodoStorage {
+  readonly layout: RemoteStorageLayout;
+  load(): Todo[];
+  save(todos: Todo[]): void;
+  clear(): void; // Delete everything this layout has stored
+  files(): string[]; // Files the TODOs are stored in
+}
+
+// Parsed file contents, reused until the file changes on disk
+const parseCache = new Map<string, { mtimeMs: number; size: number; todos: Todo[] }>();
+
+// Modification time and size of files, to tell whether they changed since. Missing files are left out.
+export function getFileStamp(files: string[]): string {
+  return files
+    .filter(file => fs.existsSync(file))
+    .map(file => {
+      const stats = fs.statSync(file);
+      return `${file}:${stats.mtimeMs}:${stats.size}`;
+    })
+    .join('\n');
+}
+
+function readTodoFile(filePath: string): Todo[] {
+  const stats = fs.statSync(filePath);
+  const cached = parseCache.get(filePath);
+  if (cached && cached.mtimeMs === stats.mtimeMs && cached.size === stats.size) {
+    // Callers replace todos rather than mutate them, a shallow copy keeps the cache intact
+    return cached.todos.map(todo => ({ ...todo }));
+  }
+
+  const todos = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  if (!Array.isArray(todos)) {
+    throw new Error(`${filePath} does not contain a TODO list`);
+  }
+  parseCache.set(filePath, { mtimeMs: stats.mtimeMs, size: stats.size, todos });
+  return todos.map(todo => ({ ...todo }));
+}
+
+// Skip the write when the content is unchanged, keeping mtimes and git status quiet
+function writeIfChanged(filePath: string, content: string): void {
+  if (fs.existsSync(filePath) && fs.readFileSync(filePath, 'utf8') === content) {
+    return;
+  }
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, content);
+}
+
+class SingleFileStorage implements RemoteTodoStorage {
+  readonly layout = 'file';
+  private readonly file: string;
+
+  constructor(root: string) {
+    this.file = path.join(root, REMOTE_TODO_FILE);
+  }
+
+  load(): Todo[] {
+    return fs.existsSync(this.file) ? readTodoFile(this.file) : [];
+  }
+
+  save(todos: Todo[]): void {
+    writeIfChanged(this.file, JSON.stringify(todos, null, 2));
+  }
+
+  clear(): void {
+    if (fs.existsSync(this.file)) {
+      fs.unlinkSync(this.file);
+    }
+  }
+
+  files(): string[] {
+    return [this.file];
+  }
+}
+
+class ShardedStorage implements RemoteTodoStorage {
+  readonly layout = 'sharded';
+  private readonly directory: string;
+
+  constructor(root: string) {
+    this.directory = path.join(root, SHARD_DIRECTORY);
+  }
+
+  private get unresolvedFile(): string {
+    return path.join(this.directory, UNRESOLVED_FILE);
+  }
+
+  load(): Todo[] {
+    const todos: Todo[] = [];
+    for (const shard of this.listShards()) {
+      const relativeShard = path.relative(this.directory, shard).split(path.sep).join('/');
+      const sourceFile = relativeShard.slice(0, -'.json'.length);
+      // The source file is implied by the shard's location. Shards never store it, so a TODO that
+      // does is one of the legacy unresolved ones; saving moves it to the unresolved file.
+      todos.push(...readTodoFile(shard).map(todo => relativeShard === LEGACY_UNRESOLVED_SHARD && todo.file ? todo : { ...todo, file: sourceFile }));
+    }
+    if (fs.existsSync(this.unresolvedFile)) {
+      todos.push(...readTodoFile(this.unresolvedFile));
+    }
+    return todos;
+  }
+
+  save(todos: Todo[]): void {
+    const shards = new Map<string, Todo[]>();
+    for (const todo of todos) {
+      const isRelative = !path.posix.isAbsolute(todo.file) && !path.win32.isAbsolute(todo.file);
+      const shard = isRelative
+        ? path.join(this.directory, ...`${todo.file}.json`.split('/'))
+        : this.unresolvedFile;
+      const { file, ...rest } = todo;
+      shards.set(shard, [...(shards.get(shard) || []), isRelative ? rest as Todo : todo]);
+    }
+
+    for (const shard of this.files()) {
+      if (!shards.has(shard)) {
+        fs.unlinkSync(shard);
+      }
+    }
+    shards.forEach((shardTodos, shard) => writeIfChanged(shard, JSON.stringify(shardTodos, null, 2)));
+    this.removeEmptyDirectories(this.directory, false);
+  }
+
+  clear(): void {
+    if (fs.existsSync(this.directory)) {
+      fs.rmSync(this.directory, { recursive: true, force: true });
+    }
+  }
+
+  files(): string[] {
+    return [...this.listShards(), ...(fs.existsSync(this.unresolvedFile) ? [this.unresolvedFile] : [])];
+  }
+
+  private listShards(directory: string = this.directory): string[] {
+    if (!fs.existsSync(directory)) return [];
+
+    const shards: string[] = [];
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true }).sort((a, b) => a.name.localeCompare(b.name))) {
+      const entryPath = path.join(directory, entry.name);
+      if (entry.isDirectory()) {
+        shards.push(...this.listShards(entryPath));
+      } else if (entry.isFile() && entry.name.endsWith('.json')) {
+        shards.push(entryPath);
+      }
+    }
+    return shards;
+  }
+
+  // Directories of source files whose TODOs are all gone, the .todos root itself is kept
+  private removeEmptyDirectories(directory: string, removeSelf: boolean): void {
+    if (!fs.existsSync(directory)) return;
+
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+      if (entry.isDirectory()) {
+        this.removeEmptyDirectories(path.join(directory, entry.name), true);
+      }
+    }
+    if (removeSelf && fs.readdirSync(directory).length === 0) {
+      fs.rmdirSync(directory);
+    }
+  }
+}
+
+// A .todos directory switches the workspace folder to the sharded layout
+export function detectRemoteStorageLayout(root: string): RemoteStorageLayout {
+  return fs.existsSync(path.join(root, SHARD_DIRECTORY)) ? 'sharded' : 'file';
+}
+
+export function createRemoteTodoStorage(root: string, layout: RemoteStorageLayout = detectRemoteStorageLayout(root)): RemoteTodoStorage {
+  return layout === 'sharded' ? new ShardedStorage(root) : new SingleFileStorage(root);
+}
+
+// Move all remote TODOs of a workspace folder to another layout, returns how many were moved
+export function migrateRemoteTodoStorage(root: string, target: RemoteStorageLayout): number {
+  const source = createRemoteTodoStorage(root);
+  if (source.layout === target) return 0;
+
+  const todos = source.load();
+  const destination = createRemoteTodoStorage(root, target);
+  if (target === 'sharded') {
+    // Created even without TODOs so the layout is detected from now on
+    fs.mkdirSync(path.join(root, SHARD_DIRECTORY), { recursive: true });
+    fs.writeFileSync(path.join(root, SHARD_DIRECTORY, KEEP_FILE), '');
+  }
+  destination.save(todos);
+  source.clear();
+  return todos.length;
+}
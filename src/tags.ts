@@ -0,0 +1,23 @@
+import * as vscode from 'vscode';
+import { findTagDefinition, normalizeTagDefinitions, splitTodoKind, DEFAULT_TAGS, TagDefinition } from './core';
+
+export { DEFAULT_KIND, TagDefinition } from './core';
+
+// Tag vocabulary from the "awesomeTodo.tags" setting. TODO is always part of it.
+export function getTagDefinitions(): TagDefinition[] {
+  return normalizeTagDefinitions(vscode.workspace.getConfiguration('awesomeTodo').get<Partial<TagDefinition>[]>('tags', DEFAULT_TAGS));
+}
+
+export function getTagNames(): string[] {
+  return getTagDefinitions().map(definition => definition.tag);
+}
+
+// Definition for a todo kind, tags removed from the settings fall back to TODO's look
+export function getTagDefinition(kind?: string): TagDefinition {
+  return findTagDefinition(getTagDefinitions(), kind);
+}
+
+// Split a leading tag off user input, e.g. "FIXME: crash on save"
+export function parseTodoKind(text: string): { kind: string; text: string } {
+  return splitTodoKind(text, getTagNames());
+}
@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { checkRemoteTodos, formatCheckJson, formatCheckJUnit, formatCheckText } from '../check';
+import { Todo, User } from '../utils';
+import { TestWorkspace, TEST_USER } from './workspace';
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+function remoteTodo(message: string, fields: Partial<Todo> = {}): Todo {
+  return { file: 'src/app.ts', line: 0, type: 'remote', message, id: `remote-${message}`, author: TEST_USER, assignees: [TEST_USER], createdAt: '2024-05-01T00:00:00.000Z', ...fields };
+}
+
+describe('remote TODO check', () => {
+  let workspace: TestWorkspace;
+
+  beforeEach(() => {
+    workspace = TestWorkspace.create({
+      'src/app.ts': 'start();\nstop();\n',
+      '.awesometeam.json': JSON.stringify([TEST_USER])
+    });
+  });
+
+  afterEach(() => workspace.dispose());
+
+  function check(todos: Todo[], maxAgeDays?: number) {
+    workspace.write('.remotetodos.json', JSON.stringify(todos));
+    return checkRemoteTodos(workspace.root, { now: NOW, maxAgeDays });
+  }
+
+  function rules(todos: Todo[], maxAgeDays?: number): string[][] {
+    return check(todos, maxAgeDays).todos.map(todo => todo.problems.map(problem => problem.rule));
+  }
+
+  it('passes TODOs on existing lines with team assignees', () => {
+    assert.deepStrictEqual(rules([remoteTodo('first'), remoteTodo('last', { line: 1 })]), [[], []]);
+  });
+
+  it('reports missing files, lines past the end and lost anchors', () => {
+    assert.deepStrictEqual(rules([
+      remoteTodo('gone', { file: 'src/gone.ts' }),
+      // The file ends with a line break, so it has two lines
+      remoteTodo('past', { line: 2 }),
+      remoteTodo('lost', { orphaned: true })
+    ]), [['orphaned'], ['line-out-of-range'], ['missing-file']]);
+  });
+
+  it('reports assignees outside the team and ones without an email', () => {
+    const report = check([remoteTodo('stranger', { assignees: [{ name: 'Eve', email: 'eve@example.com' }, { name: 'Nameless' } as User] })]);
+
+    assert.deepStrictEqual(report.todos[0].problems.map(problem => problem.message), [
+      'Assignee Eve <eve@example.com> is not in the team',
+      'Assignee Nameless has no email address'
+    ]);
+  });
+
+  it('reports open TODOs that are too old or overdue, but not done ones', () => {
+    assert.deepStrictEqual(rules([
+      remoteTodo('old', { createdAt: '2024-01-01T00:00:00.000Z', dueDate: '2024-05-31' }),
+      remoteTodo('done', { line: 1, createdAt: '2024-01-01T00:00:00.000Z', dueDate: '2024-05-31', status: 'done' })
+    ], 90), [['too-old', 'overdue'], []]);
+  });
+
+  it('formats the report as text, JSON and JUnit', () => {
+    const report = check([remoteTodo('fine'), remoteTodo('a < b', { line: 1, orphaned: true })]);
+
+    assert.strictEqual(formatCheckText(report), [
+      'src/app.ts:2: orphaned: The code the TODO was anchored to could not be found (a < b)',
+      '1 of 2 remote TODO(s) failed the check.'
+    ].join('\n'));
+    assert.deepStrictEqual(JSON.parse(formatCheckJson(report)), report);
+    assert.strictEqual(formatCheckJUnit(report), [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<testsuites name="awesome-todo" tests="2" failures="1">',
+      '  <testsuite name="remote TODOs" tests="2" failures="1">',
+      '    <testcase name="src/app.ts:1 fine" classname="src/app.ts" file="src/app.ts" line="1"/>',
+      '    <testcase name="src/app.ts:2 a &lt; b" classname="src/app.ts" file="src/app.ts" line="2">',
+      '      <failure message="orphaned" type="orphaned">orphaned: The code the TODO was anchored to could not be found</failure>',
+      '    </testcase>',
+      '  </testsuite>',
+      '</testsuites>',
+      ''
+    ].join('\n'));
+  });
+});
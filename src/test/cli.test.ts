@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import { spawnSync } from 'child_process';
+import * as path from 'path';
+import { Todo } from '../utils';
+import { TestWorkspace, TEST_USER } from './workspace';
+
+const ADA = { name: 'Ada Lovelace', email: 'ada@example.com' };
+
+function remoteTodo(id: string, fields: Partial<Todo> = {}): Todo {
+  return { file: 'src/app.ts', line: 1, type: 'remote', message: id, id, author: TEST_USER, assignees: [TEST_USER], createdAt: '2024-01-01T00:00:00.000Z', ...fields };
+}
+
+describe('awesome-todo CLI', () => {
+  let workspace: TestWorkspace;
+
+  beforeEach(() => {
+    workspace = TestWorkspace.create({
+      'src/app.ts': 'start();\nload();\nstop();\n',
+      '.awesometeam.json': JSON.stringify([TEST_USER, ADA]),
+      '.remotetodos.json': JSON.stringify([remoteTodo('remote-mine'), remoteTodo('remote-ada', { author: ADA, assignees: [ADA] })])
+    });
+  });
+
+  afterEach(() => workspace.dispose());
+
+  function run(...args: string[]): { status: number | null; stdout: string; stderr: string } {
+    const result = spawnSync(process.execPath, [path.join(__dirname, '..', 'cli.js'), ...args], { cwd: workspace.root, encoding: 'utf8' });
+    return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+  }
+
+  it('lists the TODOs the user sees, or every one with --all', () => {
+    const mine = run('list', '--json');
+    assert.strictEqual(mine.status, 0, mine.stderr);
+    assert.deepStrictEqual(JSON.parse(mine.stdout).map((todo: Todo) => todo.id), ['remote-mine']);
+
+    const all = run('list', '--all', '--remote', '--json');
+    assert.deepStrictEqual(JSON.parse(all.stdout).map((todo: Todo) => todo.id), ['remote-mine', 'remote-ada']);
+  });
+
+  it('adds a remote TODO with the tags of the workspace settings', () => {
+    workspace.write('.vscode/settings.json', [
+      '{',
+      '  // Team tags, see https://example.com/tags',
+      '  "awesomeTodo.tags": [',
+      '    { "tag": "TODO" },',
+      '    { "tag": "RISK", "defaultPriority": "P0", "assignable": false }, /* no owner */',
+      '  ],',
+      '}'
+    ].join('\n'));
+
+    const result = run('add', 'src/app.ts:2', 'RISK: data loss on retry', '--json');
+
+    assert.strictEqual(result.status, 0, result.stderr);
+    const todo: Todo = JSON.parse(result.stdout);
+    assert.strictEqual(todo.kind, 'RISK');
+    assert.strictEqual(todo.message, 'data loss on retry');
+    assert.deepStrictEqual(todo.assignees, []);
+    assert.match(run('list').stdout, /open +P0 +remote +src\/app\.ts:2 +RISK: data loss on retry/);
+    assert.strictEqual(run('add', 'src/app.ts:2', 'RISK: again', '--assign', ADA.email).status, 2);
+  });
+
+  it('assigns, completes and removes TODOs by the start of their id', () => {
+    assert.strictEqual(run('assign', 'remote-m', 'Ada Lovelace').status, 0);
+    assert.deepStrictEqual(workspace.remoteTodos()[0].assignees, [TEST_USER, ADA]);
+
+    assert.strictEqual(run('done', 'remote-m').status, 0);
+    assert.strictEqual(workspace.remoteTodos()[0].status, 'done');
+    assert.strictEqual(run('done', 'remote-m').status, 2);
+    assert.deepStrictEqual(JSON.parse(run('mine', '--json').stdout), []);
+
+    assert.strictEqual(run('rm', 'remote-ada', '--all').status, 0);
+    assert.deepStrictEqual(workspace.remoteTodos().map(todo => todo.id), ['remote-mine']);
+  });
+
+  it('exits with 2 on usage errors', () => {
+    assert.strictEqual(run().status, 2);
+    assert.strictEqual(run('--help').status, 0);
+    assert.strictEqual(run('unknown').status, 2);
+    assert.strictEqual(run('list', '--bogus').status, 2);
+    assert.strictEqual(run('rm', 'remote-ada').status, 2, 'not visible without --all');
+    assert.strictEqual(run('assign', 'remote-mine', 'Nobody').status, 2);
+    assert.strictEqual(run('add', 'src/app.ts:9', 'out of range').status, 2);
+  });
+
+  it('exits with 1 when the check fails', () => {
+    assert.strictEqual(run('check').status, 0);
+
+    workspace.write('.remotetodos.json', JSON.stringify([remoteTodo('remote-gone', { file: 'src/gone.ts' })]));
+    const result = run('check');
+
+    assert.strictEqual(result.status, 1);
+    assert.match(result.stdout, /src\/gone\.ts:2: missing-file/);
+  });
+});
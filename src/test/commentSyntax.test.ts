@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { CommentScanner } from '../commentSyntax';
+
+function scan(languageId: string, lines: string[], tags = ['TODO', 'FIXME']): string[][] {
+  const scanner = new CommentScanner(languageId, tags);
+  return lines.map(line => scanner.scanLine(line).map(comment => `${comment.tag}:${comment.message}`));
+}
+
+describe('comment scanner', () => {
+  it('ignores comment delimiters inside string literals', () => {
+    assert.deepStrictEqual(scan('typescript', [
+      "const uris = await findFiles('**/*');",
+      '// TODO: real one',
+      'const x = 1; // TODO: after',
+      'const u = "http://a.b"; // TODO: trailing',
+      'const t = `/* ${a} */`; /* FIXME: block */'
+    ]), [[], ['TODO:real one'], ['TODO:after'], ['TODO:trailing'], ['FIXME:block']]);
+  });
+
+  it('keeps looking for a TODO after a comment without one', () => {
+    assert.deepStrictEqual(scan('typescript', [
+      'run(); // see notes // TODO: follow up',
+      '// mentions /* but opens no block',
+      '// TODO: next line'
+    ]), [['TODO:follow up'], [], ['TODO:next line']]);
+  });
+
+  it('takes unmatched quotes and prose apostrophes literally', () => {
+    assert.deepStrictEqual(scan('rust', ["fn f<'a>(x: &'a str) {} // TODO: lifetimes"]), [['TODO:lifetimes']]);
+    assert.deepStrictEqual(scan('markdown', ["Don't <!-- TODO: quoted --> isn't"]), [['TODO:quoted']]);
+  });
+
+  it('only takes tags in another case with a colon or parenthesis', () => {
+    assert.deepStrictEqual(scan('typescript', [
+      '// note that this is fine',
+      '/* bug reports go to upstream */',
+      '// Note: cached on purpose',
+      '// bug(ada) crashes on save',
+      '// NOTE keep in sync // note the order // BUG: off by one'
+    ], ['TODO', 'NOTE', 'BUG']), [
+      [],
+      [],
+      ['NOTE:cached on purpose'],
+      ['BUG:(ada) crashes on save'],
+      ['NOTE:keep in sync // note the order', 'BUG:off by one']
+    ]);
+  });
+});
@@ -0,0 +1,786 @@
+// In-process stand-in for the "vscode" module, enough of the API for the extension to activate
+// and for its commands and providers to run against a temp-dir workspace. setup.ts maps
+// require('vscode') to this file; tests drive it through the `fake` object at the bottom.
+import * as fs from 'fs';
+import * as path from 'path';
+
+export class Uri {
+  private constructor(public readonly scheme: string, public readonly fsPath: string, private readonly raw?: string) {}
+
+  static file(filePath: string): Uri {
+    return new Uri('file', path.resolve(filePath));
+  }
+
+  static parse(value: string): Uri {
+    const match = /^([a-z][\w+.-]*):/i.exec(value);
+    return match?.[1] === 'file' ? Uri.file(value.replace(/^file:\/\//, '')) : new Uri(match?.[1] || 'file', value, value);
+  }
+
+  static joinPath(base: Uri, ...segments: string[]): Uri {
+    return Uri.file(path.join(base.fsPath, ...segments));
+  }
+
+  get path(): string {
+    return this.fsPath.split(path.sep).join('/');
+  }
+
+  toString(): string {
+    return this.raw || `file://${this.path}`;
+  }
+}
+
+export class Position {
+  constructor(public readonly line: number, public readonly character: number) {}
+
+  isBefore(other: Position): boolean {
+    return this.line < other.line || (this.line === other.line && this.character < other.character);
+  }
+
+  isEqual(other: Position): boolean {
+    return this.line === other.line && this.character === other.character;
+  }
+}
+
+export class Range {
+  public readonly start: Position;
+  public readonly end: Position;
+
+  constructor(startOrLine: Position | number, endOrCharacter: Position | number, endLine?: number, endCharacter?: number) {
+    const start = typeof startOrLine === 'number' ? new Position(startOrLine, endOrCharacter as number) : startOrLine;
+    const end = typeof startOrLine === 'number' ? new Position(endLine!, endCharacter!) : endOrCharacter as Position;
+    [this.start, this.end] = end.isBefore(start) ? [end, start] : [start, end];
+  }
+
+  get isEmpty(): boolean {
+    return this.start.isEqual(this.end);
+  }
+}
+
+export class Selection extends Range {
+  constructor(public readonly anchor: Position, public readonly active: Position) {
+    super(anchor, active);
+  }
+}
+
+export class Disposable {
+  constructor(private readonly callOnDispose: () => void) {}
+
+  static from(...disposables: { dispose(): unknown }[]): Disposable {
+    return new Disposable(() => disposables.forEach(disposable => disposable.dispose()));
+  }
+
+  dispose(): void {
+    this.callOnDispose();
+  }
+}
+
+// Async listeners are tracked so tests can wait for their store writes with fake.settle()
+const pendingListeners = new Set<Promise<unknown>>();
+const listenerErrors: unknown[] = [];
+
+function track(result: unknown): void {
+  if (result && typeof (result as Promise<unknown>).then === 'function') {
+    const promise = Promise.resolve(result).catch(error => { listenerErrors.push(error); });
+    pendingListeners.add(promise);
+    promise.then(() => pendingListeners.delete(promise));
+  }
+}
+
+export class EventEmitter<T> {
+  private listeners = new Set<(event: T) => unknown>();
+
+  readonly event = (listener: (event: T) => unknown, thisArgs?: unknown, disposables?: Disposable[]): Disposable => {
+    const bound = (event: T) => listener.call(thisArgs, event);
+    this.listeners.add(bound);
+    const disposable = new Disposable(() => this.listeners.delete(bound));
+    disposables?.push(disposable);
+    return disposable;
+  };
+
+  fire(event: T): void {
+    Array.from(this.listeners).forEach(listener => track(listener(event)));
+  }
+
+  dispose(): void {
+    this.listeners.clear();
+  }
+}
+
+export interface TextLine {
+  lineNumber: number;
+  text: string;
+  range: Range;
+  rangeIncludingLineBreak: Range;
+  firstNonWhitespaceCharacterIndex: number;
+  isEmptyOrWhitespace: boolean;
+}
+
+const LANGUAGE_IDS: Record<string, string> = {
+  '.ts': 'typescript',
+  '.js': 'javascript',
+  '.py': 'python',
+  '.md': 'markdown',
+  '.html': 'html',
+  '.sql': 'sql'
+};
+
+export class TextDocument {
+  version = 1;
+  isClosed = false;
+  private lines: string[];
+
+  constructor(public readonly uri: Uri, text: string, public readonly languageId: string) {
+    this.lines = text.split(/\r?\n/);
+  }
+
+  get fileName(): string {
+    return this.uri.fsPath;
+  }
+
+  get lineCount(): number {
+    return this.lines.length;
+  }
+
+  get isDirty(): boolean {
+    return this.getText() !== fs.readFileSync(this.uri.fsPath, 'utf8');
+  }
+
+  lineAt(lineOrPosition: number | Position): TextLine {
+    const lineNumber = typeof lineOrPosition === 'number' ? lineOrPosition : lineOrPosition.line;
+    if (lineNumber < 0 || lineNumber >= this.lines.length) {
+      throw new Error(`Illegal value for line: ${lineNumber}`);
+    }
+    const text = this.lines[lineNumber];
+    const range = new Range(lineNumber, 0, lineNumber, text.length);
+    return {
+      lineNumber,
+      text,
+      range,
+      rangeIncludingLineBreak: lineNumber < this.lines.length - 1 ? new Range(lineNumber, 0, lineNumber + 1, 0) : range,
+      firstNonWhitespaceCharacterIndex: text.length - text.trimStart().length,
+      isEmptyOrWhitespace: text.trim().length === 0
+    };
+  }
+
+  getText(range?: Range): string {
+    const text = this.lines.join('\n');
+    return range ? text.slice(this.offsetAt(range.start), this.offsetAt(range.end)) : text;
+  }
+
+  offsetAt(position: Position): number {
+    const line = Math.min(position.line, this.lines.length - 1);
+    let offset = 0;
+    for (let i = 0; i < line; i++) {
+      offset += this.lines[i].length + 1;
+    }
+    return offset + Math.min(position.character, this.lines[line].length);
+  }
+
+  async save(): Promise<boolean> {
+    fs.writeFileSync(this.uri.fsPath, this.getText());
+    fake.onDidSaveTextDocument.fire(this);
+    return true;
+  }
+
+  // Close the document, unsaved edits are discarded
+  close(): void {
+    this.isClosed = true;
+    documents.delete(this.uri.fsPath);
+    fake.onDidCloseTextDocument.fire(this);
+  }
+
+  // Replace a range the way an edit does, used by workspace.applyEdit
+  replace(range: Range, text: string): void {
+    const content = this.getText();
+    this.lines = (content.slice(0, this.offsetAt(range.start)) + text + content.slice(this.offsetAt(range.end))).split('\n');
+    this.version++;
+  }
+}
+
+interface TextEdit {
+  uri: Uri;
+  range: Range;
+  newText: string;
+}
+
+export class WorkspaceEdit {
+  private readonly edits: TextEdit[] = [];
+
+  get size(): number {
+    return new Set(this.edits.map(edit => edit.uri.toString())).size;
+  }
+
+  insert(uri: Uri, position: Position, newText: string): void {
+    this.edits.push({ uri, range: new Range(position, position), newText });
+  }
+
+  delete(uri: Uri, range: Range): void {
+    this.edits.push({ uri, range, newText: '' });
+  }
+
+  replace(uri: Uri, range: Range, newText: string): void {
+    this.edits.push({ uri, range, newText });
+  }
+
+  getEdits(): TextEdit[] {
+    return [...this.edits];
+  }
+}
+
+export class TextEditor {
+  selection: Selection = new Selection(new Position(0, 0), new Position(0, 0));
+  decorations = new Map<unknown, unknown[]>();
+
+  constructor(public readonly document: TextDocument) {}
+
+  get selections(): Selection[] {
+    return [this.selection];
+  }
+
+  setDecorations(decorationType: unknown, ranges: unknown[]): void {
+    this.decorations.set(decorationType, ranges);
+  }
+
+  revealRange(): void {}
+}
+
+export class CodeLens {
+  constructor(public range: Range, public command?: { title: string; command: string; tooltip?: string; arguments?: any[] }) {}
+
+  get isResolved(): boolean {
+    return !!this.command;
+  }
+}
+
+export class CodeActionKind {
+  static readonly Empty = new CodeActionKind('');
+  static readonly QuickFix = new CodeActionKind('quickfix');
+  static readonly Refactor = new CodeActionKind('refactor');
+
+  constructor(public readonly value: string) {}
+}
+
+export class CodeAction {
+  command?: { title: string; command: string; arguments?: any[] };
+  edit?: WorkspaceEdit;
+  isPreferred?: boolean;
+
+  constructor(public title: string, public kind?: CodeActionKind) {}
+}
+
+export class MarkdownString {
+  isTrusted?: boolean | { enabledCommands: string[] };
+  supportHtml?: boolean;
+
+  constructor(public value: string = '') {}
+
+  appendMarkdown(value: string): MarkdownString {
+    this.value += value;
+    return this;
+  }
+
+  appendText(value: string): MarkdownString {
+    this.value += value.replace(/[\\`*_{}[\]()#+\-.!]/g, '\\$&');
+    return this;
+  }
+}
+
+export class Hover {
+  constructor(public contents: MarkdownString, public range?: Range) {}
+}
+
+export class ThemeIcon {
+  static readonly File = new ThemeIcon('file');
+  static readonly Folder = new ThemeIcon('folder');
+
+  constructor(public readonly id: string) {}
+}
+
+export class ThemeColor {
+  constructor(public readonly id: string) {}
+}
+
+export enum TreeItemCollapsibleState {
+  None = 0,
+  Collapsed = 1,
+  Expanded = 2
+}
+
+export class TreeItem {
+  description?: string;
+  tooltip?: string | MarkdownString;
+  iconPath?: ThemeIcon;
+  contextValue?: string;
+  command?: { title: string; command: string; arguments?: any[] };
+  resourceUri?: Uri;
+
+  constructor(public label: string, public collapsibleState: TreeItemCollapsibleState = TreeItemCollapsibleState.None) {}
+}
+
+export enum DiagnosticSeverity {
+  Error = 0,
+  Warning = 1,
+  Information = 2,
+  Hint = 3
+}
+
+export class Diagnostic {
+  source?: string;
+  code?: string | number | { value: string | number; target: Uri };
+
+  constructor(public range: Range, public message: string, public severity: DiagnosticSeverity = DiagnosticSeverity.Error) {}
+}
+
+export enum StatusBarAlignment {
+  Left = 1,
+  Right = 2
+}
+
+export class StatusBarItem {
+  text = '';
+  tooltip?: string | MarkdownString;
+  command?: string | { title: string; command: string; arguments?: any[] };
+  visible = false;
+
+  constructor(public readonly id: string | undefined, public readonly alignment: StatusBarAlignment, public readonly priority?: number) {}
+
+  show(): void {
+    this.visible = true;
+  }
+
+  hide(): void {
+    this.visible = false;
+  }
+
+  dispose(): void {
+    fake.statusBarItems.splice(fake.statusBarItems.indexOf(this), 1);
+  }
+}
+
+export class RelativePattern {
+  constructor(public readonly base: { uri: Uri } | string, public readonly pattern: string) {}
+}
+
+export enum CommentMode {
+  Editing = 0,
+  Preview = 1
+}
+
+export enum CommentThreadState {
+  Unresolved = 0,
+  Resolved = 1
+}
+
+export enum CommentThreadCollapsibleState {
+  Collapsed = 0,
+  Expanded = 1
+}
+
+export enum ProgressLocation {
+  SourceControl = 1,
+  Window = 10,
+  Notification = 15
+}
+
+export interface WorkspaceFolder {
+  uri: Uri;
+  name: string;
+  index: number;
+}
+
+// A scripted answer for the next prompt: the label (or a part of it) to pick, a predicate over
+// the items, the text to type, or undefined to cancel
+export type PromptAnswer = string | string[] | ((item: any) => boolean) | WorkspaceFolder | Uri | undefined;
+
+export interface ShownMessage {
+  severity: 'information' | 'warning' | 'error';
+  message: string;
+}
+
+function takeAnswer(prompt: string): PromptAnswer {
+  if (fake.answers.length === 0) {
+    throw new Error(`Unexpected prompt: ${prompt}`);
+  }
+  return fake.answers.shift();
+}
+
+function matchItem<T extends { label: string }>(items: T[], answer: PromptAnswer, prompt: string): T {
+  const item = typeof answer === 'function'
+    ? items.find(answer)
+    : items.find(candidate => candidate.label === answer) || items.find(candidate => candidate.label.includes(answer as string));
+  if (!item) {
+    throw new Error(`No item matches ${String(answer)} in "${prompt}": ${items.map(candidate => candidate.label).join(', ')}`);
+  }
+  return item;
+}
+
+function showMessage(severity: ShownMessage['severity']) {
+  return async (message: string, ...rest: any[]): Promise<string | undefined> => {
+    fake.messages.push({ severity, message });
+    const [options] = rest;
+    const items = rest.filter(item => typeof item === 'string');
+    // Only modal dialogs wait for an answer, notifications are left alone
+    return options?.modal && items.length > 0 ? takeAnswer(message) as string | undefined : undefined;
+  };
+}
+
+function createMemento() {
+  const values = new Map<string, unknown>();
+  return {
+    keys: () => Array.from(values.keys()),
+    get: <T>(key: string, defaultValue?: T) => (values.has(key) ? values.get(key) : defaultValue) as T,
+    update: async (key: string, value: unknown) => { values.set(key, value); }
+  };
+}
+
+const documents = new Map<string, TextDocument>();
+const registeredCommands = new Map<string, (...args: any[]) => any>();
+
+function getFolderFor(uri: Uri): WorkspaceFolder | undefined {
+  return (workspace.workspaceFolders || [])
+    .filter(folder => uri.fsPath === folder.uri.fsPath || uri.fsPath.startsWith(folder.uri.fsPath + path.sep))
+    .sort((a, b) => b.uri.fsPath.length - a.uri.fsPath.length)[0];
+}
+
+async function openDocument(uriOrPath: Uri | string): Promise<TextDocument> {
+  const uri = typeof uriOrPath === 'string' ? Uri.file(uriOrPath) : uriOrPath;
+  const existing = documents.get(uri.fsPath);
+  if (existing) return existing;
+
+  // Like the editor, opening a missing file fails
+  const text = fs.readFileSync(uri.fsPath, 'utf8');
+  const document = new TextDocument(uri, text, LANGUAGE_IDS[path.extname(uri.fsPath)] || 'plaintext');
+  documents.set(uri.fsPath, document);
+  fake.onDidOpenTextDocument.fire(document);
+  return document;
+}
+
+export const workspace = {
+  workspaceFolders: undefined as WorkspaceFolder[] | undefined,
+
+  get textDocuments(): TextDocument[] {
+    return Array.from(documents.values());
+  },
+
+  getWorkspaceFolder: getFolderFor,
+
+  asRelativePath(pathOrUri: string | Uri, includeWorkspaceFolder?: boolean): string {
+    const uri = typeof pathOrUri === 'string' ? Uri.file(pathOrUri) : pathOrUri;
+    const folder = getFolderFor(uri);
+    if (!folder) return uri.fsPath;
+
+    const relative = path.relative(folder.uri.fsPath, uri.fsPath).split(path.sep).join('/');
+    const withFolder = includeWorkspaceFolder ?? (workspace.workspaceFolders || []).length > 1;
+    return withFolder ? `${folder.name}/${relative}` : relative;
+  },
+
+  getConfiguration(section?: string) {
+    const key = (name: string) => section ? `${section}.${name}` : name;
+    return {
+      get: <T>(name: string, defaultValue?: T): T => (key(name) in fake.settings ? fake.settings[key(name)] : defaultValue) as T,
+      has: (name: string) => key(name) in fake.settings,
+      update: async (name: string, value: unknown) => {
+        fake.settings[key(name)] = value;
+        fake.onDidChangeConfiguration.fire({ affectsConfiguration: (changed: string) => key(name).startsWith(changed) });
+      }
+    };
+  },
+
+  openTextDocument: openDocument,
+
+  async applyEdit(edit: WorkspaceEdit): Promise<boolean> {
+    const byDocument = new Map<string, TextEdit[]>();
+    for (const textEdit of edit.getEdits()) {
+      byDocument.set(textEdit.uri.fsPath, [...(byDocument.get(textEdit.uri.fsPath) || []), textEdit]);
+    }
+
+    for (const [fsPath, edits] of byDocument) {
+      const document = await openDocument(fsPath);
+      // Bottom-up, so every reported range is valid for the text at the time it is applied
+      const ordered = edits.sort((a, b) => document.offsetAt(b.range.start) - document.offsetAt(a.range.start));
+      const contentChanges = ordered.map(textEdit => {
+        const change = {
+          range: textEdit.range,
+          rangeOffset: document.offsetAt(textEdit.range.start),
+          rangeLength: document.offsetAt(textEdit.range.end) - document.offsetAt(textEdit.range.start),
+          text: textEdit.newText
+        };
+        document.replace(textEdit.range, textEdit.newText);
+        return change;
+      });
+      fake.onDidChangeTextDocument.fire({ document, contentChanges, reason: undefined });
+    }
+    return true;
+  },
+
+  fs: {
+    async readFile(uri: Uri): Promise<Uint8Array> {
+      return fs.readFileSync(uri.fsPath);
+    },
+    async writeFile(uri: Uri, content: Uint8Array): Promise<void> {
+      fs.mkdirSync(path.dirname(uri.fsPath), { recursive: true });
+      fs.writeFileSync(uri.fsPath, content);
+    },
+    async delete(uri: Uri): Promise<void> {
+      fs.rmSync(uri.fsPath, { recursive: true, force: true });
+    }
+  },
+
+  createFileSystemWatcher(pattern: RelativePattern) {
+    const created = new EventEmitter<Uri>();
+    const changed = new EventEmitter<Uri>();
+    const deleted = new EventEmitter<Uri>();
+    const watcher = {
+      pattern,
+      onDidCreate: created.event,
+      onDidChange: changed.event,
+      onDidDelete: deleted.event,
+      dispose: () => { fake.watchers.splice(fake.watchers.indexOf(watcher), 1); }
+    };
+    fake.watchers.push(watcher);
+    return watcher;
+  },
+
+  get onDidOpenTextDocument() { return fake.onDidOpenTextDocument.event; },
+  get onDidChangeTextDocument() { return fake.onDidChangeTextDocument.event; },
+  get onDidSaveTextDocument() { return fake.onDidSaveTextDocument.event; },
+  get onDidCloseTextDocument() { return fake.onDidCloseTextDocument.event; },
+  get onDidChangeConfiguration() { return fake.onDidChangeConfiguration.event; },
+  get onDidChangeWorkspaceFolders() { return fake.onDidChangeWorkspaceFolders.event; }
+};
+
+export const window = {
+  activeTextEditor: undefined as TextEditor | undefined,
+  get onDidChangeActiveTextEditor() { return fake.onDidChangeActiveTextEditor.event; },
+  visibleTextEditors: [] as TextEditor[],
+
+  showInformationMessage: showMessage('information'),
+  showWarningMessage: showMessage('warning'),
+  showErrorMessage: showMessage('error'),
+
+  async showQuickPick<T extends { label: string } | string>(items: T[] | Promise<T[]>, options: { placeHolder?: string; canPickMany?: boolean } = {}): Promise<any> {
+    const prompt = options.placeHolder || 'quick pick';
+    const resolved = (await items).map(item => typeof item === 'string' ? { label: item, item } : { label: item.label, item });
+    const answer = takeAnswer(prompt);
+    if (answer === undefined) return undefined;
+
+    // Predicates see the items as passed in, e.g. with their description and detail
+    const toMatcher = (single: PromptAnswer): PromptAnswer => typeof single === 'function' ? (entry: { item: T }) => single(entry.item) : single;
+    if (options.canPickMany) {
+      const answers: PromptAnswer[] = Array.isArray(answer) ? answer : [answer];
+      return answers.map(single => matchItem(resolved, toMatcher(single), prompt).item);
+    }
+    return matchItem(resolved, toMatcher(answer), prompt).item;
+  },
+
+  async showInputBox(options: { prompt?: string; value?: string; validateInput?: (value: string) => string | null | undefined | Promise<string | null | undefined> } = {}): Promise<string | undefined> {
+    const answer = takeAnswer(options.prompt || 'input box') as string | undefined;
+    if (answer === undefined) return undefined;
+
+    // The editor does not accept input its validation rejects
+    const problem = await options.validateInput?.(answer);
+    if (problem) {
+      throw new Error(`Input "${answer}" rejected: ${problem}`);
+    }
+    return answer;
+  },
+
+  async showWorkspaceFolderPick(options: { placeHolder?: string } = {}): Promise<WorkspaceFolder | undefined> {
+    return takeAnswer(options.placeHolder || 'workspace folder') as WorkspaceFolder | undefined;
+  },
+
+  async showOpenDialog(): Promise<Uri[] | undefined> {
+    const answer = takeAnswer('open dialog');
+    return answer ? [answer as Uri] : undefined;
+  },
+
+  async showSaveDialog(): Promise<Uri | undefined> {
+    return takeAnswer('save dialog') as Uri | undefined;
+  },
+
+  async showTextDocument(documentOrUri: TextDocument | Uri, options: { selection?: Range } = {}): Promise<TextEditor> {
+    const document = documentOrUri instanceof TextDocument ? documentOrUri : await openDocument(documentOrUri);
+    const editor = window.visibleTextEditors.find(visible => visible.document === document) || new TextEditor(document);
+    if (options.selection) {
+      editor.selection = new Selection(options.selection.start, options.selection.end);
+    }
+    const changed = window.activeTextEditor !== editor;
+    window.activeTextEditor = editor;
+    window.visibleTextEditors = [editor, ...window.visibleTextEditors.filter(visible => visible !== editor)];
+    if (changed) {
+      fake.onDidChangeActiveTextEditor.fire(editor);
+    }
+    return editor;
+  },
+
+  async withProgress<R>(options: unknown, task: (progress: { report(value: unknown): void }, token: { isCancellationRequested: boolean }) => Promise<R>): Promise<R> {
+    return task({ report: () => undefined }, { isCancellationRequested: false });
+  },
+
+  createTextEditorDecorationType(options: unknown) {
+    return { key: `decoration-${Math.random()}`, options, dispose: () => undefined };
+  },
+
+  createStatusBarItem(idOrAlignment?: string | StatusBarAlignment, alignmentOrPriority?: StatusBarAlignment | number, priority?: number) {
+    const item = typeof idOrAlignment === 'string'
+      ? new StatusBarItem(idOrAlignment, (alignmentOrPriority as StatusBarAlignment) || StatusBarAlignment.Left, priority)
+      : new StatusBarItem(undefined, idOrAlignment || StatusBarAlignment.Left, alignmentOrPriority);
+    fake.statusBarItems.push(item);
+    return item;
+  },
+
+  createTreeView(viewId: string, options: { treeDataProvider: unknown }) {
+    const view = { viewId, ...options, badge: undefined as unknown, dispose: () => undefined };
+    fake.treeViews.set(viewId, view);
+    return view;
+  }
+};
+
+export const languages = {
+  registerCodeLensProvider(selector: unknown, provider: unknown): Disposable {
+    fake.codeLensProviders.push(provider);
+    return new Disposable(() => fake.codeLensProviders.splice(fake.codeLensProviders.indexOf(provider), 1));
+  },
+
+  registerHoverProvider(selector: unknown, provider: unknown): Disposable {
+    fake.hoverProviders.push(provider);
+    return new Disposable(() => fake.hoverProviders.splice(fake.hoverProviders.indexOf(provider), 1));
+  },
+
+  registerCodeActionsProvider(selector: unknown, provider: unknown): Disposable {
+    fake.codeActionProviders.push(provider);
+    return new Disposable(() => fake.codeActionProviders.splice(fake.codeActionProviders.indexOf(provider), 1));
+  },
+
+  createDiagnosticCollection(name: string) {
+    const entries = new Map<string, Diagnostic[]>();
+    return {
+      name,
+      set: (uri: Uri, diagnostics: Diagnostic[]) => { entries.set(uri.fsPath, diagnostics); },
+      get: (uri: Uri) => entries.get(uri.fsPath),
+      delete: (uri: Uri) => { entries.delete(uri.fsPath); },
+      clear: () => entries.clear(),
+      dispose: () => entries.clear()
+    };
+  }
+};
+
+export const comments = {
+  createCommentController(id: string, label: string) {
+    const threads: any[] = [];
+    return {
+      id,
+      label,
+      threads,
+      options: undefined as unknown,
+      commentingRangeProvider: undefined as unknown,
+      createCommentThread(uri: Uri, range: Range, threadComments: unknown[]) {
+        const thread = {
+          uri,
+          range,
+          comments: threadComments,
+          dispose: () => { threads.splice(threads.indexOf(thread), 1); }
+        };
+        threads.push(thread);
+        return thread;
+      },
+      dispose: () => { threads.length = 0; }
+    };
+  }
+};
+
+// Commands the editor itself provides, the extension only invokes them
+const BUILTIN_COMMANDS = ['vscode.open', 'setContext'];
+
+export const commands = {
+  registerCommand(id: string, handler: (...args: any[]) => any): Disposable {
+    if (registeredCommands.has(id)) {
+      throw new Error(`command '${id}' already exists`);
+    }
+    registeredCommands.set(id, handler);
+    return new Disposable(() => registeredCommands.delete(id));
+  },
+
+  async executeCommand<T>(id: string, ...args: any[]): Promise<T | undefined> {
+    const handler = registeredCommands.get(id);
+    if (handler) return handler(...args);
+    if (BUILTIN_COMMANDS.includes(id)) return undefined;
+    throw new Error(`command '${id}' not found`);
+  },
+
+  async getCommands(): Promise<string[]> {
+    return Array.from(registeredCommands.keys());
+  }
+};
+
+// Controls and recordings for tests
+export const fake = {
+  answers: [] as PromptAnswer[],
+  messages: [] as ShownMessage[],
+  settings: {} as Record<string, any>,
+  codeLensProviders: [] as any[],
+  hoverProviders: [] as any[],
+  codeActionProviders: [] as any[],
+  treeViews: new Map<string, unknown>(),
+  statusBarItems: [] as StatusBarItem[],
+  watchers: [] as unknown[],
+
+  onDidOpenTextDocument: new EventEmitter<TextDocument>(),
+  onDidChangeTextDocument: new EventEmitter<{ document: TextDocument; contentChanges: unknown[]; reason: undefined }>(),
+  onDidSaveTextDocument: new EventEmitter<TextDocument>(),
+  onDidCloseTextDocument: new EventEmitter<TextDocument>(),
+  onDidChangeConfiguration: new EventEmitter<{ affectsConfiguration(section: string): boolean }>(),
+  onDidChangeWorkspaceFolders: new EventEmitter<{ added: WorkspaceFolder[]; removed: WorkspaceFolder[] }>(),
+  onDidChangeActiveTextEditor: new EventEmitter<TextEditor | undefined>(),
+
+  // Queue answers for the next prompts, in the order they are shown
+  answer(...answers: PromptAnswer[]): void {
+    fake.answers.push(...answers);
+  },
+
+  setWorkspaceFolders(roots: string[]): void {
+    workspace.workspaceFolders = roots.map((root, index) => ({ uri: Uri.file(root), name: path.basename(root), index }));
+  },
+
+  createExtensionContext(extensionPath: string) {
+    return {
+      subscriptions: [] as { dispose(): unknown }[],
+      workspaceState: createMemento(),
+      globalState: createMemento(),
+      extensionPath,
+      extensionUri: Uri.file(extensionPath),
+      asAbsolutePath: (relativePath: string) => path.join(extensionPath, relativePath)
+    };
+  },
+
+  // Wait until every async event listener, e.g. line tracking after an edit, has finished
+  async settle(): Promise<void> {
+    do {
+      await new Promise(resolve => setImmediate(resolve));
+      await Promise.all(Array.from(pendingListeners));
+    } while (pendingListeners.size > 0);
+
+    const error = listenerErrors.shift();
+    if (error) throw error;
+  },
+
+  reset(): void {
+    fake.answers = [];
+    fake.messages = [];
+    fake.settings = {};
+    fake.codeLensProviders = [];
+    fake.hoverProviders = [];
+    fake.codeActionProviders = [];
+    fake.treeViews.clear();
+    fake.statusBarItems = [];
+    fake.watchers = [];
+    listenerErrors.length = 0;
+    [fake.onDidOpenTextDocument, fake.onDidChangeTextDocument, fake.onDidSaveTextDocument, fake.onDidCloseTextDocument, fake.onDidChangeConfiguration, fake.onDidChangeWorkspaceFolders, fake.onDidChangeActiveTextEditor]
+      .forEach(emitter => emitter.dispose());
+    registeredCommands.clear();
+    documents.clear();
+    workspace.workspaceFolders = undefined;
+    window.activeTextEditor = undefined;
+    window.visibleTextEditors = [];
+  }
+};
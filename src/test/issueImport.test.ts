@@ -0,0 +1,32 @@
+import * as assert from 'assert';
+import { parseGitHubIssues, parseGitLabIssues } from '../issueImport';
+
+describe('issue import', () => {
+  it('reads GitHub issues and skips pull requests', () => {
+    const issues = parseGitHubIssues(JSON.stringify([
+      { number: 7, title: 'Crash on save', state: 'open', html_url: 'https://github.com/o/r/issues/7', labels: [{ name: 'bug' }], assignees: [{ login: 'ada' }], milestone: { due_on: '2024-03-01T00:00:00Z' } },
+      { number: 8, title: 'Add tests', pull_request: {} }
+    ]));
+
+    assert.deepStrictEqual(issues, [{
+      ref: { tracker: 'GitHub', number: '7', url: 'https://github.com/o/r/issues/7' },
+      title: 'Crash on save',
+      closed: false,
+      labels: ['bug'],
+      assignees: ['ada'],
+      createdAt: undefined,
+      dueDate: '2024-03-01'
+    }]);
+  });
+
+  it('ignores fields of the wrong type', () => {
+    const [issue] = parseGitLabIssues(JSON.stringify({
+      issues: [{ iid: 3, title: 'Slow start', web_url: 42, labels: 'bug', assignees: [null, { username: ['ada'] }, 'grace'], due_date: { on: '2024-03-01' } }, 'not an issue']
+    }));
+
+    assert.deepStrictEqual(issue.ref, { tracker: 'GitLab', number: '3', url: '42' });
+    assert.deepStrictEqual(issue.labels, []);
+    assert.deepStrictEqual(issue.assignees, ['grace']);
+    assert.strictEqual(issue.dueDate, undefined);
+  });
+});
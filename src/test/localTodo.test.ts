@@ -0,0 +1,234 @@
+import * as assert from 'assert';
+import { fake, Position, Range, Uri, workspace as editorWorkspace, WorkspaceEdit } from './fakeVscode';
+import { TestWorkspace } from './workspace';
+
+const SOURCE = [
+  'function main() {',
+  '  // TODO: handle errors [P1] #backend',
+  '  run();',
+  '}'
+].join('\n');
+
+describe('local TODO commands', () => {
+  let workspace: TestWorkspace;
+
+  beforeEach(async () => {
+    workspace = TestWorkspace.create({ 'src/app.ts': SOURCE });
+    await workspace.activate();
+  });
+
+  afterEach(() => workspace.dispose());
+
+  it('converts a comment into a stored TODO and removes the comment line', async () => {
+    const document = await workspace.open('src/app.ts');
+    await workspace.run('localTodo.convertTodo', document, 1, document.lineAt(1).text.trim());
+
+    assert.strictEqual(document.getText(), 'function main() {\n  run();\n}');
+    const [todo] = workspace.localTodos();
+    assert.strictEqual(todo.file, 'src/app.ts');
+    assert.strictEqual(todo.message, 'handle errors');
+    assert.strictEqual(todo.priority, 'P1');
+    assert.deepStrictEqual(todo.labels, ['backend']);
+    // The TODO stays with the code that followed the removed comment
+    assert.strictEqual(todo.line, 1);
+  });
+
+  it('keeps the code when the comment trails it', async () => {
+    workspace.write('src/inline.ts', 'const retries = 3; // FIXME: read from settings\n');
+    const document = await workspace.open('src/inline.ts');
+    await workspace.run('localTodo.convertTodo', document, 0, document.lineAt(0).text);
+
+    assert.strictEqual(document.lineAt(0).text.trimEnd(), 'const retries = 3;');
+    const [todo] = workspace.localTodos();
+    assert.strictEqual(todo.kind, 'FIXME');
+    assert.strictEqual(todo.line, 0);
+  });
+
+  it('turns a TODO back into a comment when it is edited', async () => {
+    const document = await workspace.open('src/app.ts');
+    await workspace.run('localTodo.convertTodo', document, 1, '');
+    const [todo] = workspace.localTodos();
+
+    await workspace.run('localTodo.editTodo', document, todo.line, { ...todo, file: workspace.path(todo.file) });
+
+    assert.strictEqual(document.lineAt(1).text, '  // TODO: handle errors [P1] #backend');
+    assert.strictEqual(document.lineAt(2).text, '  run();');
+    assert.deepStrictEqual(workspace.localTodos(), []);
+  });
+
+  it('moves a TODO to the line entered by the user', async () => {
+    const document = await workspace.open('src/app.ts');
+    await workspace.run('localTodo.convertTodo', document, 1, '');
+    const [todo] = workspace.localTodos();
+
+    fake.answer('3');
+    await workspace.run('localTodo.moveTodo', document, todo.line, todo);
+
+    const [moved] = workspace.localTodos();
+    assert.strictEqual(moved.line, 2);
+    assert.strictEqual(moved.anchor?.text, '}');
+    assert.ok(fake.messages.some(message => message.message === 'TODO moved to line 3'));
+  });
+
+  it('removes only the TODO it is given, even when another one on the line has the same message', async () => {
+    workspace.write('src/twice.ts', '/* TODO: check */ call(); // TODO: check\n');
+    const document = await workspace.open('src/twice.ts');
+    await workspace.run('localTodo.convertTodo', document, 0, '');
+    const [first, second] = workspace.localTodos();
+    assert.ok(first && second, 'both comments are converted');
+    assert.notStrictEqual(first.id, second.id);
+
+    await workspace.run('localTodo.removeTodo', document, first.line, first);
+
+    assert.deepStrictEqual(workspace.localTodos().map(todo => todo.id), [second.id]);
+  });
+
+  it('gives TODOs converted on consecutive lines their own ids', async () => {
+    workspace.write('src/twice.ts', '// TODO: first\n// TODO: second\ncall();\n');
+    const document = await workspace.open('src/twice.ts');
+    await workspace.run('localTodo.convertTodo', document, 0, '');
+    // Removing the first comment line moves the second one up to line 0
+    await workspace.run('localTodo.convertTodo', document, 0, '');
+    const [first, second] = workspace.localTodos();
+    assert.ok(first && second, 'both comments are converted');
+    assert.notStrictEqual(first.id, second.id);
+
+    await workspace.run('localTodo.removeTodo', document, second.line, second);
+
+    assert.deepStrictEqual(workspace.localTodos().map(todo => todo.message), ['first']);
+  });
+
+  it('turns only the edited TODO back into a comment when another one shares its line', async () => {
+    workspace.write('src/twice.ts', '/* TODO: check */ call(); // FIXME: retry\n');
+    const document = await workspace.open('src/twice.ts');
+    await workspace.run('localTodo.convertTodo', document, 0, '');
+    const [first, second] = workspace.localTodos();
+
+    await workspace.run('localTodo.editTodo', document, first.line, { ...first, file: workspace.path(first.file) });
+
+    assert.strictEqual(document.lineAt(0).text.trim(), '// TODO: check');
+    assert.deepStrictEqual(workspace.localTodos().map(todo => todo.id), [second.id]);
+  });
+});
+
+describe('tracking TODO lines', () => {
+  let workspace: TestWorkspace;
+
+  beforeEach(async () => {
+    workspace = TestWorkspace.create({
+      'src/app.ts': 'load();\nsave();\nrender();\n',
+      '.localtodos.json': JSON.stringify([{ file: 'src/app.ts', line: 2, type: 'local', message: 'batch', id: 'src/app.ts:2:0' }])
+    });
+    await workspace.activate();
+  });
+
+  afterEach(() => workspace.dispose());
+
+  async function insertLineAtTop(file: string): Promise<void> {
+    const edit = new WorkspaceEdit();
+    edit.insert(Uri.file(workspace.path(file)), new Position(0, 0), 'init();\n');
+    await editorWorkspace.applyEdit(edit);
+    await fake.settle();
+  }
+
+  async function lensLines(file: string): Promise<number[]> {
+    const document = await workspace.open(file);
+    const [provider] = fake.codeLensProviders;
+    const lenses = await provider.provideCodeLenses(document, {});
+    return Array.from(new Set<number>(lenses.map((lens: { range: Range }) => lens.range.start.line)));
+  }
+
+  it('keeps lines shifted by unsaved edits in memory and writes them once saved', async () => {
+    const document = await workspace.open('src/app.ts');
+    const written = workspace.read('.localtodos.json');
+
+    await insertLineAtTop('src/app.ts');
+    await insertLineAtTop('src/app.ts');
+
+    assert.deepStrictEqual(await lensLines('src/app.ts'), [4]);
+    assert.strictEqual(workspace.read('.localtodos.json'), written);
+
+    await document.save();
+    await new Promise(resolve => setTimeout(resolve, 350));
+    await fake.settle();
+
+    const [todo] = workspace.localTodos();
+    assert.strictEqual(todo.line, 4);
+    assert.strictEqual(todo.anchor?.text, 'render();');
+  });
+
+  it('re-locates the TODOs of an opened document in memory until it is saved', async () => {
+    workspace.write('src/app.ts', 'load();\nvalidate();\nsave();\nrender();\n');
+    const anchored = JSON.stringify([{
+      file: 'src/app.ts', line: 2, type: 'local', message: 'batch', id: 'src/app.ts:2:0',
+      anchor: { text: 'render();', before: ['load();', 'save();'], after: [''] }
+    }]);
+    workspace.write('.localtodos.json', anchored);
+    await workspace.run('awesomeTodo.treeView.refresh');
+
+    const document = await workspace.open('src/app.ts');
+
+    assert.deepStrictEqual(await lensLines('src/app.ts'), [3]);
+    assert.strictEqual(workspace.read('.localtodos.json'), anchored);
+
+    await document.save();
+    await new Promise(resolve => setTimeout(resolve, 350));
+    await fake.settle();
+
+    assert.strictEqual(workspace.localTodos()[0].line, 3);
+  });
+
+  it('re-locates the TODOs of a document closed without saving', async () => {
+    const document = await workspace.open('src/app.ts');
+    await insertLineAtTop('src/app.ts');
+
+    document.close();
+    await fake.settle();
+
+    assert.deepStrictEqual(await lensLines('src/app.ts'), [2]);
+    assert.strictEqual(workspace.localTodos()[0].line, 2);
+  });
+});
+
+describe('local TODOs in a multi-root workspace', () => {
+  let workspace: TestWorkspace;
+  const localTodo = (message: string) => JSON.stringify([{ file: 'app.ts', line: 0, type: 'local', message, id: 'app.ts:0:0' }]);
+
+  beforeEach(async () => {
+    workspace = TestWorkspace.create({
+      'api/app.ts': 'serve();\n',
+      'api/.localtodos.json': localTodo('api work'),
+      'web/app.ts': 'render();\n',
+      'web/.localtodos.json': localTodo('web work')
+    });
+    fake.setWorkspaceFolders([workspace.path('api'), workspace.path('web')]);
+    await workspace.activate();
+  });
+
+  afterEach(() => workspace.dispose());
+
+  it('lists the TODOs of the active editor\'s folder', async () => {
+    await workspace.open('web/app.ts');
+    const messages: string[] = [];
+    fake.answer((item: { description: string }) => {
+      messages.push(item.description);
+      return true;
+    });
+
+    await workspace.run('localTodo.listTodos');
+
+    assert.deepStrictEqual(messages, ['web work']);
+  });
+
+  it('asks for the folder without an active editor', async () => {
+    const messages: string[] = [];
+    fake.answer(editorWorkspace.workspaceFolders![0], (item: { description: string }) => {
+      messages.push(item.description);
+      return true;
+    });
+
+    await workspace.run('localTodo.listTodos');
+
+    assert.deepStrictEqual(messages, ['api work']);
+  });
+});
@@ -0,0 +1,161 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { mergeTodoLists } from '../mergeDriver';
+import { Todo, User } from '../utils';
+import { TestWorkspace } from './workspace';
+
+const ADA: User = { name: 'Ada', email: 'ada@example.com' };
+const BOB: User = { name: 'Bob', email: 'bob@example.com' };
+const CY: User = { name: 'Cy', email: 'cy@example.com' };
+
+function remoteTodo(fields: Partial<Todo> = {}): Todo {
+  return {
+    file: 'src/app.ts',
+    line: 1,
+    type: 'remote',
+    message: 'handle errors',
+    id: 'remote-1',
+    author: ADA,
+    assignees: [ADA],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    ...fields
+  };
+}
+
+describe('merging remote TODO files', () => {
+  it('keeps an assignee removed on one side removed', () => {
+    const base = remoteTodo({ assignees: [ADA, BOB] });
+    const ours = remoteTodo({ assignees: [ADA], updatedAt: '2024-01-02T00:00:00.000Z' });
+    const theirs = remoteTodo({ assignees: [ADA, BOB], message: 'handle all errors', updatedAt: '2024-01-03T00:00:00.000Z' });
+
+    const [merged] = mergeTodoLists([base], [ours], [theirs]);
+
+    assert.deepStrictEqual(merged.assignees, [ADA]);
+    assert.strictEqual(merged.message, 'handle all errors');
+  });
+
+  it('assigns the people added on either side', () => {
+    const base = remoteTodo({ assignees: [ADA] });
+    const ours = remoteTodo({ assignees: [ADA, BOB] });
+    const theirs = remoteTodo({ assignees: [CY] });
+
+    const [merged] = mergeTodoLists([base], [ours], [theirs]);
+
+    assert.deepStrictEqual(merged.assignees, [BOB, CY]);
+  });
+
+  it('merges TODOs by id, keeping the ones added on both sides and the removal of unchanged ones', () => {
+    const kept = remoteTodo({ id: 'remote-kept' });
+    const removed = remoteTodo({ id: 'remote-removed' });
+    const editedAndRemoved = remoteTodo({ id: 'remote-edited' });
+    const base = [kept, removed, editedAndRemoved];
+    const ours = [kept, remoteTodo({ id: 'remote-edited', message: 'edited' }), remoteTodo({ id: 'remote-ours' })];
+    const theirs = [remoteTodo({ id: 'remote-theirs' }), kept, removed];
+
+    const merged = mergeTodoLists(base, ours, theirs);
+
+    assert.deepStrictEqual(merged.map(todo => todo.id), ['remote-kept', 'remote-edited', 'remote-ours', 'remote-theirs']);
+    assert.strictEqual(merged[1].message, 'edited');
+  });
+
+  it('takes fields changed on one side and the newest edit of fields changed on both', () => {
+    const base = remoteTodo({ status: 'open', priority: 'P2' });
+    const ours = remoteTodo({ status: 'in-progress', priority: 'P1', updatedAt: '2024-01-03T00:00:00.000Z' });
+    const theirs = remoteTodo({ priority: 'P0', dueDate: '2024-02-01', updatedAt: '2024-01-02T00:00:00.000Z' });
+
+    const [merged] = mergeTodoLists([base], [ours], [theirs]);
+
+    assert.strictEqual(merged.status, 'in-progress');
+    assert.strictEqual(merged.priority, 'P1');
+    assert.strictEqual(merged.dueDate, '2024-02-01');
+    assert.strictEqual(merged.updatedAt, '2024-01-03T00:00:00.000Z');
+  });
+
+  it('keeps the history entries of both sides in time order', () => {
+    const start = { field: 'status', from: 'open', to: 'in-progress', by: ADA, at: '2024-01-02T00:00:00.000Z' };
+    const ourEntry = { field: 'status', from: 'in-progress', to: 'blocked', by: ADA, at: '2024-01-04T00:00:00.000Z' };
+    const theirEntry = { field: 'priority', from: 'P2', to: 'P1', by: BOB, at: '2024-01-03T00:00:00.000Z' };
+    const base = remoteTodo({ history: [start] });
+
+    const [merged] = mergeTodoLists([base], [remoteTodo({ history: [start, ourEntry] })], [remoteTodo({ history: [start, theirEntry] })]);
+
+    assert.deepStrictEqual(merged.history, [start, theirEntry, ourEntry]);
+  });
+
+  it('keeps the latest edit of a comment and drops comments deleted on one side', () => {
+    const comment = (id: string, body: string, editedAt?: string) =>
+      ({ id, body, author: ADA, createdAt: `2024-01-0${id}T00:00:00.000Z`, ...(editedAt ? { editedAt } : {}) });
+    const base = remoteTodo({ comments: [comment('1', 'first'), comment('2', 'second'), comment('3', 'third')] });
+    // Comment 1 edited on both sides, 2 deleted by them, 3 deleted by us after they edited it
+    const ours = remoteTodo({ comments: [comment('1', 'ours', '2024-01-05T00:00:00.000Z'), comment('2', 'second')] });
+    const theirs = remoteTodo({ comments: [comment('1', 'theirs', '2024-01-06T00:00:00.000Z'), comment('3', 'third, edited', '2024-01-05T00:00:00.000Z')] });
+
+    const [merged] = mergeTodoLists([base], [ours], [theirs]);
+
+    assert.deepStrictEqual(merged.comments?.map(item => item.body), ['theirs', 'third, edited']);
+  });
+
+  it('merges files added on both sides against an empty ancestor', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'awesome-todo-merge-'));
+    try {
+      const file = (name: string, content: string) => {
+        fs.writeFileSync(path.join(directory, name), content);
+        return path.join(directory, name);
+      };
+      const base = file('base', '');
+      const ours = file('ours', JSON.stringify([remoteTodo({ id: 'remote-ours' })]));
+      const theirs = file('theirs', JSON.stringify([remoteTodo({ id: 'remote-theirs' })]));
+
+      execFileSync(process.execPath, [path.join(__dirname, '..', 'mergeDriver.js'), base, ours, theirs]);
+
+      const merged: Todo[] = JSON.parse(fs.readFileSync(ours, 'utf8'));
+      assert.deepStrictEqual(merged.map(todo => todo.id), ['remote-ours', 'remote-theirs']);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('merge driver registration', () => {
+  let workspace: TestWorkspace;
+
+  beforeEach(() => {
+    workspace = TestWorkspace.create();
+  });
+
+  afterEach(() => workspace.dispose());
+
+  function configuredDriver(): string {
+    return execFileSync('git', ['config', '--get', 'merge.awesometodo.driver'], { cwd: workspace.root, encoding: 'utf8' }).trim();
+  }
+
+  it('runs a copy of the driver inside the git directory', async () => {
+    await workspace.activate();
+    await workspace.run('remoteTodo.installMergeDriver');
+
+    const copy = workspace.path('.git/awesometodo/mergeDriver.js');
+    assert.strictEqual(configuredDriver(), `node "${copy.replace(/\\/g, '/')}" %O %A %B`);
+    assert.ok(fs.existsSync(copy));
+    assert.strictEqual(workspace.read('.gitattributes'), '.remotetodos.json merge=awesometodo\n**/.todos/**/*.json merge=awesometodo\n**/.todos/.unresolved merge=awesometodo\n');
+  });
+
+  it('moves a driver registered in an old extension directory into the git directory on activation', async () => {
+    const oldScript = path.join('/extensions', 'awesome-todo-0.0.0', 'out', 'mergeDriver.js');
+    execFileSync('git', ['config', 'merge.awesometodo.driver', `node "${oldScript}" %O %A %B`], { cwd: workspace.root });
+
+    await workspace.activate();
+
+    assert.ok(configuredDriver().includes('.git/awesometodo/mergeDriver.js'));
+    assert.ok(workspace.exists('.git/awesometodo/mergeDriver.js'));
+  });
+
+  it('leaves repositories without the driver alone', async () => {
+    await workspace.activate();
+
+    assert.ok(!workspace.exists('.git/awesometodo'));
+  });
+});
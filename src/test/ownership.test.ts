@@ -0,0 +1,120 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { findCodeOwners, parseCodeOwners, rankAssignees } from '../ownership';
+import { RosterMember } from '../utils';
+import { fake } from './fakeVscode';
+import { TestWorkspace, TEST_USER } from './workspace';
+
+const ADA = { name: 'Ada Lovelace', email: 'ada@example.com' };
+const GRACE = { name: 'Grace Hopper', email: 'grace@example.com' };
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2024-06-01T00:00:00Z');
+
+describe('CODEOWNERS', () => {
+  const rules = parseCodeOwners([
+    '# Fallback for everything',
+    '*       @lead',
+    '*.md    docs@example.com',
+    '/build/ @ops',
+    'src/**/api  @ada @grace  # API owners',
+    'tests/  @qa'
+  ].join('\n'));
+
+  it('lets the last matching rule win', () => {
+    assert.deepStrictEqual(findCodeOwners(rules, 'src/app.ts'), ['@lead']);
+    assert.deepStrictEqual(findCodeOwners(rules, 'docs/guide.md'), ['docs@example.com']);
+    assert.deepStrictEqual(findCodeOwners(rules, 'src/server/v2/api/routes.ts'), ['@ada', '@grace']);
+  });
+
+  it('matches directories at the root or at any depth', () => {
+    assert.deepStrictEqual(findCodeOwners(rules, 'build/out.js'), ['@ops']);
+    assert.deepStrictEqual(findCodeOwners(rules, 'lib/build/out.js'), ['@lead']);
+    assert.deepStrictEqual(findCodeOwners(rules, 'lib/tests/unit.ts'), ['@qa']);
+  });
+
+  it('has no owners without a matching rule', () => {
+    assert.deepStrictEqual(findCodeOwners(parseCodeOwners('docs/ @writer'), 'src/app.ts'), []);
+  });
+});
+
+describe('assignee ranking', () => {
+  it('ranks recent changes above more but older ones', () => {
+    const authors = [
+      ...[1, 2, 3].map(() => ({ ...ADA, time: NOW - 720 * DAY })),
+      ...[1, 2].map(() => ({ ...GRACE, time: NOW - DAY }))
+    ];
+
+    const ranked = rankAssignees(authors, [], [], [], NOW);
+
+    assert.deepStrictEqual(ranked.map(suggestion => [suggestion.user.name, suggestion.lines]), [['Grace Hopper', 2], ['Ada Lovelace', 3]]);
+    assert.strictEqual(ranked[1].lastChange, NOW - 720 * DAY);
+  });
+
+  it('merges roster aliases and resolves code owners by GitHub handle', () => {
+    const roster: RosterMember[] = [{ name: 'Ada Lovelace', emails: [ADA.email, 'ada@home.example'], github: 'ada' }];
+    const authors = [{ ...GRACE, time: NOW }, { name: 'ada', email: 'ada@home.example', time: NOW - 30 * DAY }];
+
+    const ranked = rankAssignees(authors, ['@ada', '@org/team'], [], roster, NOW);
+
+    assert.deepStrictEqual(ranked.map(suggestion => suggestion.user), [ADA, GRACE]);
+    assert.deepStrictEqual(ranked.map(suggestion => suggestion.codeOwner), [true, false]);
+  });
+
+  it('shows blamed authors under their team name', () => {
+    const ranked = rankAssignees([{ name: 'ada', email: 'ADA@example.com', time: NOW }], [], [ADA], [], NOW);
+
+    assert.deepStrictEqual(ranked[0].user, ADA);
+  });
+});
+
+describe('assignee suggestions', () => {
+  let workspace: TestWorkspace;
+
+  beforeEach(async () => {
+    workspace = TestWorkspace.create();
+    workspace.commit('src/app.ts', 'start();\n// TODO: share the cache\nstop();\n', ADA);
+    workspace.commit('CODEOWNERS', 'src/ grace@example.com\n');
+    await workspace.activate();
+  });
+
+  afterEach(() => workspace.dispose());
+
+  it('puts the authors of nearby lines and the code owners first in the assign picker', async () => {
+    workspace.write('.awesometeam.json', JSON.stringify([GRACE]));
+    const document = await workspace.open('src/app.ts');
+    await workspace.run('remoteTodo.convertTodo', document, 1, '');
+    const todo = { ...workspace.remoteTodos()[0], file: workspace.path('src/app.ts') };
+    const labels: string[] = [];
+
+    fake.answer((item: { label: string; description: string }) => {
+      labels.push(`${item.label} (${item.description})`);
+      return item.label === '⭐ Add Ada Lovelace';
+    });
+    await workspace.run('remoteTodo.assignTodo', document, todo.line, todo);
+
+    assert.ok(labels[0].startsWith('⭐ Add Grace Hopper (grace@example.com · code owner)'), labels[0]);
+    assert.ok(labels[1].startsWith('⭐ Add Ada Lovelace (ada@example.com · 3 lines nearby · last change '), labels[1]);
+    assert.deepStrictEqual(workspace.remoteTodos()[0].assignees, [TEST_USER, ADA]);
+  });
+
+  it('still suggests the authors and warns once when CODEOWNERS can not be read', async () => {
+    fs.rmSync(workspace.path('CODEOWNERS'));
+    fs.mkdirSync(workspace.path('CODEOWNERS'));
+    const document = await workspace.open('src/app.ts');
+    await workspace.run('remoteTodo.convertTodo', document, 1, '');
+    const todo = { ...workspace.remoteTodos()[0], file: workspace.path('src/app.ts') };
+    const labels: string[] = [];
+
+    fake.answer((item: { label: string }) => {
+      labels.push(item.label);
+      return item.label === '⭐ Add Ada Lovelace';
+    });
+    await workspace.run('remoteTodo.assignTodo', document, todo.line, todo);
+    fake.answer(undefined);
+    await workspace.run('remoteTodo.assignTodo', document, todo.line, todo);
+
+    assert.strictEqual(labels[0], '⭐ Add Ada Lovelace');
+    const warnings = fake.messages.filter(message => message.message.startsWith('Failed to read the CODEOWNERS file'));
+    assert.strictEqual(warnings.length, 1);
+  });
+});
@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import { Todo } from '../utils';
+import { fake, Range, TextDocument } from './fakeVscode';
+import { TestWorkspace, TEST_USER } from './workspace';
+
+const OTHER_USER = { name: 'Other Person', email: 'other@example.com' };
+
+function remoteTodo(line: number, message: string, fields: Partial<Todo>): Todo {
+  return { file: 'src/app.ts', line, type: 'remote', message, id: `remote-${message}`, assignees: [], ...fields };
+}
+
+describe('providers', () => {
+  let workspace: TestWorkspace;
+  let document: TextDocument;
+
+  beforeEach(async () => {
+    workspace = TestWorkspace.create({
+      'src/app.ts': 'load();\n// TODO: cache results\nsave();\nrender();\n',
+      '.localtodos.json': JSON.stringify([{ file: 'src/app.ts', line: 2, type: 'local', message: 'batch writes', id: 'src/app.ts:2:0' }]),
+      '.remotetodos.json': JSON.stringify([
+        remoteTodo(3, 'mine', { author: TEST_USER, assignees: [TEST_USER] }),
+        remoteTodo(3, 'hidden', { author: OTHER_USER, assignees: [OTHER_USER] })
+      ])
+    });
+    await workspace.activate();
+    document = await workspace.open('src/app.ts');
+  });
+
+  afterEach(() => workspace.dispose());
+
+  async function codeActions(line: number): Promise<string[]> {
+    const [provider] = fake.codeActionProviders;
+    const actions = await provider.provideCodeActions(document, new Range(line, 0, line, 0), { diagnostics: [] }, {});
+    return (actions || []).map((action: { title: string }) => action.title);
+  }
+
+  async function codeLenses(line: number): Promise<{ title: string; command: string }[]> {
+    const [provider] = fake.codeLensProviders;
+    const lenses = await provider.provideCodeLenses(document, {});
+    return lenses
+      .filter((lens: { range: Range }) => lens.range.start.line === line)
+      .map((lens: { command: { title: string; command: string } }) => lens.command);
+  }
+
+  it('offers conversions on a TODO comment line', async () => {
+    const titles = await codeActions(1);
+
+    assert.ok(titles.includes('Convert to Local TODO'));
+    assert.ok(titles.includes('Convert to Remote TODO'));
+  });
+
+  it('offers edit and status actions on a line with a local TODO', async () => {
+    const titles = await codeActions(2);
+
+    assert.ok(titles.includes('Edit Local TODO'));
+    assert.ok(titles.includes('Change TODO Status'));
+    assert.ok(!titles.includes('Convert to Local TODO'));
+  });
+
+  it('only offers actions for remote TODOs the user can see', async () => {
+    const titles = await codeActions(3);
+
+    // A second, visible remote TODO on the line would turn this into a list action
+    assert.ok(titles.includes('Edit Remote TODO'));
+    assert.ok(titles.includes('Assign Remote TODO'));
+  });
+
+  it('shows convert lenses above TODO comments', async () => {
+    const commands = (await codeLenses(1)).map(lens => lens.command);
+
+    assert.deepStrictEqual(commands, ['localTodo.convertTodo', 'remoteTodo.convertTodo']);
+  });
+
+  it('shows stored local TODOs with their actions', async () => {
+    const lenses = await codeLenses(2);
+
+    assert.ok(lenses[0].title.includes('batch writes'));
+    assert.deepStrictEqual(lenses.slice(1).map(lens => lens.command), [
+      'awesomeTodo.setStatus', 'localTodo.editTodo', 'localTodo.moveTodo', 'localTodo.removeTodo'
+    ]);
+  });
+
+  it('hides remote TODOs of other people', async () => {
+    const titles = (await codeLenses(3)).map(lens => lens.title).join('\n');
+
+    assert.ok(titles.includes('mine'));
+    assert.ok(!titles.includes('hidden'));
+  });
+});
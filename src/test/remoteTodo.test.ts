@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { Todo } from '../utils';
+import { fake } from './fakeVscode';
+import { TestWorkspace, TEST_USER } from './workspace';
+
+const TEAMMATE = { name: 'Ada Lovelace', email: 'ada@example.com' };
+
+describe('remote TODO commands', () => {
+  let workspace: TestWorkspace;
+
+  beforeEach(async () => {
+    workspace = TestWorkspace.create({ 'src/app.ts': 'start();\n// TODO: share the cache\nstop();\n' });
+    await workspace.activate();
+  });
+
+  afterEach(() => workspace.dispose());
+
+  async function convert(): Promise<Todo> {
+    const document = await workspace.open('src/app.ts');
+    await workspace.run('remoteTodo.convertTodo', document, 1, '');
+    return { ...workspace.remoteTodos()[0], file: workspace.path('src/app.ts') };
+  }
+
+  it('converts a comment into a remote TODO authored by and assigned to the git user', async () => {
+    const todo = await convert();
+
+    assert.strictEqual(todo.message, 'share the cache');
+    assert.deepStrictEqual(todo.author, TEST_USER);
+    assert.deepStrictEqual(todo.assignees, [TEST_USER]);
+    assert.ok(todo.id?.startsWith('remote-src/app.ts:1:'));
+    assert.strictEqual((await workspace.open('src/app.ts')).getText(), 'start();\nstop();\n');
+  });
+
+  it('assigns a team member picked from the team list', async () => {
+    workspace.write('.awesometeam.json', JSON.stringify([TEAMMATE]));
+    const todo = await convert();
+    const document = await workspace.open('src/app.ts');
+
+    fake.answer('➕ Add Ada Lovelace');
+    await workspace.run('remoteTodo.assignTodo', document, todo.line, todo);
+
+    assert.deepStrictEqual(workspace.remoteTodos()[0].assignees, [TEST_USER, TEAMMATE]);
+  });
+
+  it('assigns someone new and adds them to the team', async () => {
+    const todo = await convert();
+    const document = await workspace.open('src/app.ts');
+
+    fake.answer('Add New Team Member', TEAMMATE.email, TEAMMATE.name, 'Yes');
+    await workspace.run('remoteTodo.assignTodo', document, todo.line, todo);
+
+    assert.deepStrictEqual(workspace.remoteTodos()[0].assignees, [TEST_USER, TEAMMATE]);
+    assert.deepStrictEqual(workspace.readJson('.awesometeam.json'), [TEAMMATE]);
+  });
+
+  it('rejects an assignee email without @ and gives up after three attempts', async () => {
+    const todo = await convert();
+    const document = await workspace.open('src/app.ts');
+
+    fake.answer('Add New Team Member', 'ada', 'ada', 'ada');
+    await workspace.run('remoteTodo.assignTodo', document, todo.line, todo);
+
+    assert.deepStrictEqual(workspace.remoteTodos()[0].assignees, [TEST_USER]);
+    assert.ok(fake.messages.some(message => message.message === 'Assignee addition cancelled after 3 failed attempts.'));
+  });
+
+  it('does not remove the last assignee', async () => {
+    const todo = await convert();
+    const document = await workspace.open('src/app.ts');
+
+    fake.answer('❌ Remove Test User');
+    await workspace.run('remoteTodo.assignTodo', document, todo.line, todo);
+
+    assert.deepStrictEqual(workspace.remoteTodos()[0].assignees, [TEST_USER]);
+    assert.ok(fake.messages.some(message => message.severity === 'warning' && message.message.startsWith('Cannot remove the last assignee')));
+  });
+});
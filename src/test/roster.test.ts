@@ -0,0 +1,140 @@
+import * as assert from 'assert';
+import { checkRemoteTodos } from '../check';
+import { DiscussionCommentView } from '../discussion';
+import { addTeamMember, filterVisibleRemoteTodos, loadTeamMembers, removeTeamMember, RosterMember, Todo } from '../utils';
+import { fake } from './fakeVscode';
+import { TestWorkspace, TEST_USER } from './workspace';
+
+const ME: RosterMember = { name: 'Test User', emails: [TEST_USER.email, 'test@users.noreply.github.com'], github: 'testuser' };
+const ADA: RosterMember = { name: 'Ada Lovelace', emails: ['ada@example.com', 'ada@home.example'], github: 'ada', roles: ['lead'] };
+
+function remoteTodo(message: string, fields: Partial<Todo>): Todo {
+  return { file: 'src/app.ts', line: 0, type: 'remote', message, id: `remote-${message}`, assignees: [], ...fields };
+}
+
+describe('team roster', () => {
+  let workspace: TestWorkspace;
+
+  beforeEach(async () => {
+    workspace = TestWorkspace.create({
+      'src/app.ts': '// TODO: ship it\nstop();\n',
+      '.awesomeroster.json': JSON.stringify({ members: [ME, ADA] })
+    });
+    await workspace.activate();
+  });
+
+  afterEach(() => workspace.dispose());
+
+  it('shows remote TODOs assigned to any alias of the user', () => {
+    const alias = { name: 'testuser', email: 'Test@Users.Noreply.GitHub.com' };
+    const todos = [
+      remoteTodo('alias', { author: { name: ADA.name, email: ADA.emails[1] }, assignees: [alias] }),
+      remoteTodo('other', { author: { name: ADA.name, email: ADA.emails[0] }, assignees: [{ name: ADA.name, email: ADA.emails[1] }] })
+    ];
+
+    assert.deepStrictEqual(filterVisibleRemoteTodos(todos, TEST_USER.email, [ME, ADA]).map(todo => todo.message), ['alias']);
+    assert.deepStrictEqual(filterVisibleRemoteTodos(todos, TEST_USER.email).map(todo => todo.message), []);
+  });
+
+  it('uses the roster as the team and edits it instead of the personal team file', async () => {
+    assert.deepStrictEqual(await loadTeamMembers(), [TEST_USER, { name: ADA.name, email: ADA.emails[0] }]);
+
+    assert.strictEqual(await addTeamMember('Ada', 'ADA@home.example'), false);
+    assert.strictEqual(await addTeamMember('Grace Hopper', 'grace@example.com'), true);
+    assert.strictEqual(await removeTeamMember('ada@home.example'), true);
+
+    assert.deepStrictEqual(workspace.readJson<{ members: RosterMember[] }>('.awesomeroster.json').members, [
+      ME, { name: 'Grace Hopper', emails: ['grace@example.com'] }
+    ]);
+    assert.ok(!workspace.exists('.awesometeam.json'));
+  });
+
+  it('hides team members already assigned under another alias and shows their roles', async () => {
+    const document = await workspace.open('src/app.ts');
+    await workspace.run('remoteTodo.convertTodo', document, 0, '');
+    const todo = { ...workspace.remoteTodos()[0], file: workspace.path('src/app.ts') };
+    const labels: string[] = [];
+
+    fake.answer((item: { label: string; description?: string }) => {
+      labels.push(`${item.label} (${item.description})`);
+      return item.label === '➕ Add Ada Lovelace';
+    });
+    await workspace.run('remoteTodo.assignTodo', document, todo.line, todo);
+
+    assert.ok(!labels.some(label => label.startsWith('➕ Add Test User')));
+    assert.ok(labels.includes('➕ Add Ada Lovelace (ada@example.com · lead)'));
+    assert.deepStrictEqual(workspace.remoteTodos()[0].assignees, [TEST_USER, { name: ADA.name, email: ADA.emails[0] }]);
+  });
+
+  it('assigns an alias of a roster member without asking for a name', async () => {
+    const document = await workspace.open('src/app.ts');
+    await workspace.run('remoteTodo.convertTodo', document, 0, '');
+    const todo = { ...workspace.remoteTodos()[0], file: workspace.path('src/app.ts') };
+
+    fake.answer('Add New Team Member', 'ada@home.example');
+    await workspace.run('remoteTodo.assignTodo', document, todo.line, todo);
+
+    assert.deepStrictEqual(workspace.remoteTodos()[0].assignees, [TEST_USER, { name: ADA.name, email: 'ada@home.example' }]);
+  });
+
+  it('accepts assignees under any roster alias in the check', () => {
+    workspace.write('.remotetodos.json', JSON.stringify([
+      remoteTodo('known', { assignees: [{ name: 'Ada', email: 'ada@home.example' }] }),
+      remoteTodo('unknown', { assignees: [{ name: 'Grace', email: 'grace@example.com' }] })
+    ]));
+
+    const report = checkRemoteTodos(workspace.root);
+
+    assert.deepStrictEqual(report.todos.filter(todo => todo.problems.some(problem => problem.rule === 'unknown-assignee')).map(todo => todo.message), ['unknown']);
+  });
+});
+
+describe('discussion comments under roster aliases', () => {
+  let workspace: TestWorkspace;
+  const comment = (id: string, email: string) => ({ id, body: `comment ${id}`, author: { name: 'Someone', email }, createdAt: `2024-01-0${id}T00:00:00.000Z` });
+
+  beforeEach(async () => {
+    workspace = TestWorkspace.create({
+      'src/app.ts': 'start();\n',
+      '.awesomeroster.json': JSON.stringify({ members: [ME, ADA] }),
+      '.remotetodos.json': JSON.stringify([remoteTodo('discussed', {
+        assignees: [TEST_USER],
+        comments: [comment('1', 'Test@Users.Noreply.GitHub.com'), comment('2', ADA.emails[0])]
+      })])
+    });
+    await workspace.activate();
+  });
+
+  afterEach(() => workspace.dispose());
+
+  it('lets the user delete comments written under another alias, but not those of others', async () => {
+    const [todo] = workspace.remoteTodos();
+    const [own, other] = todo.comments!.map(stored => new DiscussionCommentView(todo.id!, stored, false));
+
+    await workspace.run('awesomeTodo.discussion.deleteComment', other);
+    assert.ok(fake.messages.some(message => message.message === 'You can only change your own comments.'));
+
+    await workspace.run('awesomeTodo.discussion.deleteComment', own);
+    assert.deepStrictEqual(workspace.remoteTodos()[0].comments?.map(stored => stored.id), ['2']);
+  });
+});
+
+describe('sharing the team roster', () => {
+  let workspace: TestWorkspace;
+
+  beforeEach(async () => {
+    workspace = TestWorkspace.create({ '.awesometeam.json': JSON.stringify([{ name: 'Ada Lovelace', email: 'ada@example.com' }]) });
+    await workspace.activate();
+  });
+
+  afterEach(() => workspace.dispose());
+
+  it('creates the roster from the personal team and the git user', async () => {
+    await workspace.run('remoteTodo.shareTeamRoster');
+
+    assert.deepStrictEqual(workspace.readJson('.awesomeroster.json'), {
+      members: [{ name: TEST_USER.name, emails: [TEST_USER.email] }, { name: 'Ada Lovelace', emails: ['ada@example.com'] }]
+    });
+    assert.strictEqual(workspace.read('.gitignore'), '.localtodos.json\n.awesometeam.json\n');
+  });
+});
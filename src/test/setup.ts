@@ -0,0 +1,10 @@
+// Loaded by mocha before any test (see .mocharc.json): the extension's require('vscode') gets the fake
+import Module = require('module');
+
+const fakeVscodePath = require.resolve('./fakeVscode');
+const loader = Module as unknown as { _resolveFilename(request: string, ...rest: unknown[]): string };
+const resolveFilename = loader._resolveFilename;
+
+loader._resolveFilename = function (request: string, ...rest: unknown[]): string {
+  return request === 'vscode' ? fakeVscodePath : resolveFilename.call(this, request, ...rest);
+};
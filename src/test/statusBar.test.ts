@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { Todo } from '../utils';
+import { fake } from './fakeVscode';
+import { TestWorkspace, TEST_USER } from './workspace';
+
+const OTHER_USER = { name: 'Other Person', email: 'other@example.com' };
+
+// Status bar updates are debounced like the decorations
+async function waitForStatusBar(): Promise<string | undefined> {
+  await new Promise(resolve => setTimeout(resolve, 350));
+  await fake.settle();
+  return fake.statusBarItems.find(item => item.command === 'awesomeTodo.showFileTodos')?.text;
+}
+
+function todo(file: string, line: number, message: string, fields: Partial<Todo> = {}): Todo {
+  return { file, line, type: 'local', message, id: `${file}:${line}:${message}`, ...fields };
+}
+
+describe('status bar', () => {
+  let workspace: TestWorkspace;
+
+  beforeEach(async () => {
+    workspace = TestWorkspace.create({
+      'src/app.ts': 'one();\ntwo();\nthree();\n',
+      'lib/util.ts': 'four();\n',
+      '.localtodos.json': JSON.stringify([
+        todo('src/app.ts', 2, 'split'),
+        todo('lib/util.ts', 0, 'rename')
+      ]),
+      '.remotetodos.json': JSON.stringify([
+        todo('src/app.ts', 0, 'mine', { type: 'remote', author: OTHER_USER, assignees: [TEST_USER], dueDate: '2020-01-01' }),
+        todo('src/app.ts', 1, 'hidden', { type: 'remote', author: OTHER_USER, assignees: [OTHER_USER] })
+      ])
+    });
+    await workspace.activate();
+  });
+
+  afterEach(() => workspace.dispose());
+
+  it('counts the TODOs of the current file and the workspace', async () => {
+    await workspace.open('src/app.ts');
+    assert.strictEqual(await waitForStatusBar(), '$(note) 1/2 $(globe) 1/1 $(person) 1 $(warning) 1');
+
+    await workspace.open('lib/util.ts');
+    assert.strictEqual(await waitForStatusBar(), '$(note) 1/2 $(globe) 0/1 $(person) 1 $(warning) 1');
+  });
+
+  it('counts the remote TODOs shown in the visibility mode', async () => {
+    await workspace.open('src/app.ts');
+    fake.answer('Team');
+    await workspace.run('awesomeTodo.setVisibility');
+
+    assert.strictEqual(await waitForStatusBar(), '$(note) 1/2 $(globe) 2/2 $(person) 1 $(warning) 1');
+  });
+
+  it('lists the TODOs of the current file when clicked', async () => {
+    await workspace.open('src/app.ts');
+    const labels: string[] = [];
+
+    fake.answer((item: { label: string; description: string }) => {
+      labels.push(`${item.label}: ${item.description}`);
+      return item.label === 'Line 3';
+    });
+    await workspace.run('awesomeTodo.showFileTodos');
+
+    assert.deepStrictEqual(labels, ['Line 1: mine', 'Line 3: split']);
+  });
+});
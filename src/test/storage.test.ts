@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { createRemoteTodoStorage, migrateRemoteTodoStorage } from '../storage';
+import { loadRemoteTodos, loadTodos, saveRemoteTodos, saveTodos, Todo } from '../utils';
+import { TestWorkspace, TEST_USER } from './workspace';
+
+describe('storage', () => {
+  let workspace: TestWorkspace;
+
+  beforeEach(() => {
+    workspace = TestWorkspace.create({ 'src/app.ts': 'one();\ntwo();\n', 'lib/util.ts': 'three();\n' });
+  });
+
+  afterEach(() => workspace.dispose());
+
+  it('writes workspace-relative paths and reads them back as absolute paths', async () => {
+    const todo: Todo = { file: workspace.path('src/app.ts'), line: 1, type: 'local', message: 'split', id: 'src/app.ts:1:0' };
+    await saveTodos([todo]);
+
+    assert.strictEqual(workspace.localTodos()[0].file, 'src/app.ts');
+    assert.deepStrictEqual(await loadTodos(), [todo]);
+  });
+
+  it('returns no TODOs when the files do not exist', async () => {
+    assert.deepStrictEqual(await loadTodos(), []);
+    assert.deepStrictEqual(await loadRemoteTodos(), []);
+  });
+
+  it('rewrites absolute paths written on another machine once', async () => {
+    workspace.write('.localtodos.json', JSON.stringify([
+      { file: 'C:\\Users\\someone\\project\\src\\app.ts', line: 0, type: 'local', message: 'legacy' }
+    ]));
+
+    const [todo] = await loadTodos();
+
+    assert.strictEqual(todo.file, workspace.path('src/app.ts'));
+    assert.strictEqual(workspace.localTodos()[0].file, 'src/app.ts');
+  });
+
+  it('keeps remote TODOs in one file per source file in the sharded layout', async () => {
+    const todos: Todo[] = [
+      { file: workspace.path('src/app.ts'), line: 0, type: 'remote', message: 'a', id: 'remote-a', author: TEST_USER, assignees: [TEST_USER] },
+      { file: workspace.path('lib/util.ts'), line: 0, type: 'remote', message: 'b', id: 'remote-b', author: TEST_USER, assignees: [TEST_USER] }
+    ];
+    await saveRemoteTodos(todos);
+
+    assert.strictEqual(migrateRemoteTodoStorage(workspace.root, 'sharded'), 2);
+    assert.ok(!workspace.exists('.remotetodos.json'));
+    assert.strictEqual(workspace.readJson<Todo[]>('.todos/src/app.ts.json')[0].message, 'a');
+    assert.strictEqual(workspace.readJson<Todo[]>('.todos/lib/util.ts.json')[0].message, 'b');
+
+    const loaded = await loadRemoteTodos();
+    assert.deepStrictEqual(loaded.map(todo => todo.message).sort(), ['a', 'b']);
+  });
+
+  it('keeps TODOs outside the workspace apart from those of a source file named .unresolved', () => {
+    const storage = createRemoteTodoStorage(workspace.root, 'sharded');
+    const outside: Todo = { file: '/elsewhere/app.ts', line: 0, type: 'remote', message: 'outside', id: 'remote-outside' };
+    const named: Todo = { file: '.unresolved', line: 0, type: 'remote', message: 'named', id: 'remote-named' };
+
+    storage.save([outside, named]);
+
+    assert.deepStrictEqual(workspace.readJson<Todo[]>('.todos/.unresolved'), [outside]);
+    assert.deepStrictEqual(workspace.readJson<Todo[]>('.todos/.unresolved.json'), [{ line: 0, type: 'remote', message: 'named', id: 'remote-named' }]);
+    assert.deepStrictEqual(storage.load(), [named, outside]);
+  });
+
+  it('moves the unresolved TODOs of earlier versions out of the .unresolved.json shard', () => {
+    const outside: Todo = { file: '/elsewhere/app.ts', line: 0, type: 'remote', message: 'outside', id: 'remote-outside' };
+    workspace.write('.todos/.unresolved.json', JSON.stringify([outside]));
+    const storage = createRemoteTodoStorage(workspace.root);
+
+    storage.save(storage.load());
+
+    assert.ok(!workspace.exists('.todos/.unresolved.json'));
+    assert.deepStrictEqual(storage.load(), [outside]);
+  });
+});
@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import { readContributors } from '../gitHistory';
+import { addTeamMember, loadTeamMembers, removeTeamMember } from '../utils';
+import { fake } from './fakeVscode';
+import { TestWorkspace } from './workspace';
+
+const ADA = { name: 'Ada Lovelace', email: 'ada@example.com' };
+const GRACE = { name: 'Grace Hopper', email: 'grace@example.com' };
+
+describe('team management', () => {
+  let workspace: TestWorkspace;
+
+  beforeEach(async () => {
+    workspace = TestWorkspace.create();
+    await workspace.activate();
+  });
+
+  afterEach(() => workspace.dispose());
+
+  it('adds and removes members in the team file', async () => {
+    assert.strictEqual(await addTeamMember(ADA.name, ADA.email), true);
+    assert.strictEqual(await addTeamMember(GRACE.name, GRACE.email), true);
+    assert.deepStrictEqual(workspace.readJson('.awesometeam.json'), [ADA, GRACE]);
+
+    assert.strictEqual(await removeTeamMember(ADA.email), true);
+    assert.deepStrictEqual(await loadTeamMembers(), [GRACE]);
+  });
+
+  it('refuses duplicates and unknown members', async () => {
+    await addTeamMember(ADA.name, ADA.email);
+
+    assert.strictEqual(await addTeamMember('Ada', ADA.email), false);
+    assert.strictEqual(await removeTeamMember(GRACE.email), false);
+    assert.deepStrictEqual(await loadTeamMembers(), [ADA]);
+    assert.deepStrictEqual(fake.messages.filter(message => message.severity === 'warning').map(message => message.message), [
+      `Team member with email ${ADA.email} already exists.`,
+      `Team member with email ${GRACE.email} not found.`
+    ]);
+  });
+
+  it('adds a member through the manage team command', async () => {
+    fake.answer('Add Team Member', ADA.email, ADA.name);
+    await workspace.run('remoteTodo.manageTeam');
+
+    assert.deepStrictEqual(workspace.readJson('.awesometeam.json'), [ADA]);
+  });
+
+  it('rejects a member that is already in the team, ignoring case', async () => {
+    workspace.write('.awesometeam.json', JSON.stringify([ADA]));
+
+    fake.answer('Add Team Member', 'ADA@example.com');
+    await assert.rejects(workspace.run('remoteTodo.manageTeam'), /already in the team/);
+  });
+
+  it('removes a member through the manage team command', async () => {
+    workspace.write('.awesometeam.json', JSON.stringify([ADA, GRACE]));
+
+    fake.answer('❌ Remove Ada Lovelace');
+    await workspace.run('remoteTodo.manageTeam');
+
+    assert.deepStrictEqual(workspace.readJson('.awesometeam.json'), [GRACE]);
+  });
+});
+
+describe('.gitignore management', () => {
+  let workspace: TestWorkspace | undefined;
+
+  afterEach(() => workspace?.dispose());
+
+  it('creates a .gitignore with the personal files', async () => {
+    workspace = TestWorkspace.create();
+    await workspace.activate();
+
+    assert.strictEqual(workspace.read('.gitignore'), '.localtodos.json\n.awesometeam.json\n');
+  });
+
+  it('appends the missing entries to an existing .gitignore', async () => {
+    workspace = TestWorkspace.create({ '.gitignore': 'node_modules/\n.localtodos.json\n' });
+    await workspace.activate();
+
+    assert.strictEqual(workspace.read('.gitignore'), 'node_modules/\n.localtodos.json\n.awesometeam.json\n');
+  });
+
+  it('leaves a .gitignore alone that already covers the files', async () => {
+    const gitignore = 'out/\n\n*.localtodos.json\n*.awesometeam.json\n';
+    workspace = TestWorkspace.create({ '.gitignore': gitignore });
+    await workspace.activate();
+
+    assert.strictEqual(workspace.read('.gitignore'), gitignore);
+  });
+});
+
+describe('importing the team from the git log', () => {
+  let workspace: TestWorkspace;
+
+  beforeEach(async () => {
+    workspace = TestWorkspace.create();
+    workspace.commit('a.txt', 'a', ADA, '2024-01-01T10:00:00Z');
+    workspace.commit('b.txt', 'b', { name: 'Ada', email: 'ADA@old.example' }, '2024-02-01T10:00:00Z');
+    workspace.commit('c.txt', 'c', GRACE, '2024-03-01T10:00:00Z');
+    workspace.commit('d.txt', 'd', ADA, '2024-04-01T10:00:00Z');
+    workspace.commit('.mailmap', 'Ada Lovelace <ada@example.com> <ada@old.example>\n', GRACE, '2024-05-01T10:00:00Z');
+    await workspace.activate();
+  });
+
+  afterEach(() => workspace.dispose());
+
+  it('lists commit authors through .mailmap with their activity', () => {
+    assert.deepStrictEqual(readContributors(workspace.root), [
+      { ...ADA, commits: 3, lastCommit: '2024-04-01T10:00:00+00:00' },
+      { ...GRACE, commits: 2, lastCommit: '2024-05-01T10:00:00+00:00' }
+    ]);
+  });
+
+  it('adds the picked authors who are not in the team yet', async () => {
+    workspace.write('.awesometeam.json', JSON.stringify([GRACE]));
+    const details: string[] = [];
+
+    fake.answer('Import Team from Git Log', (item: { label: string; detail: string }) => {
+      details.push(item.detail);
+      return item.label === ADA.name;
+    });
+    await workspace.run('remoteTodo.manageTeam');
+
+    assert.deepStrictEqual(details, ['3 commits · last commit 2024-04-01']);
+    assert.deepStrictEqual(workspace.readJson('.awesometeam.json'), [GRACE, ADA]);
+  });
+});
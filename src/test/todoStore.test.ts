@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import * as vscode from 'vscode';
+import { TodoStore } from '../todoStore';
+import { Todo } from '../utils';
+import { fake } from './fakeVscode';
+import { TestWorkspace, TEST_USER } from './workspace';
+
+describe('TODO store reloads', () => {
+  let workspace: TestWorkspace;
+  let store: TodoStore;
+  let folder: vscode.WorkspaceFolder;
+
+  beforeEach(() => {
+    workspace = TestWorkspace.create({ 'src/app.ts': 'one();\ntwo();\n' });
+    store = new TodoStore();
+    folder = vscode.workspace.workspaceFolders![0];
+  });
+
+  afterEach(() => {
+    store.dispose();
+    workspace.dispose();
+  });
+
+  function todo(message: string): Todo {
+    return { file: workspace.path('src/app.ts'), line: 1, type: 'local', message, id: `src/app.ts:1:${message}` };
+  }
+
+  it('keeps its caches when the TODO files hold its own writes', async () => {
+    assert.strictEqual(store.getUser()?.email, TEST_USER.email);
+    await store.update('local', workspace.path('src/app.ts'), () => [todo('mine')]);
+    execFileSync('git', ['config', 'user.email', 'changed@example.com'], { cwd: workspace.root });
+
+    await store.reloadIfChanged(folder, false);
+
+    assert.strictEqual(store.getUser()?.email, TEST_USER.email);
+    assert.deepStrictEqual((await store.getLocalTodos()).map(todo => todo.message), ['mine']);
+  });
+
+  it('reloads TODO files changed by someone else', async () => {
+    await store.update('local', workspace.path('src/app.ts'), () => [todo('mine')]);
+    workspace.write('.localtodos.json', JSON.stringify([{ ...todo('pulled from the team'), file: 'src/app.ts' }]));
+
+    await store.reloadIfChanged(folder, false);
+
+    assert.deepStrictEqual((await store.getLocalTodos()).map(todo => todo.message), ['pulled from the team']);
+  });
+
+  it('re-reads the roster when it changed', async () => {
+    await store.getLocalTodos();
+    assert.deepStrictEqual(store.getRoster(), []);
+    workspace.write('.awesomeroster.json', JSON.stringify({ members: [{ name: TEST_USER.name, emails: [TEST_USER.email] }] }));
+
+    await store.reloadIfChanged(folder, true);
+
+    assert.deepStrictEqual(store.getRoster().map(member => member.name), [TEST_USER.name]);
+  });
+
+  it('warns once about a roster it can not read', () => {
+    workspace.write('.awesomeroster.json', '{ "members": [');
+
+    assert.deepStrictEqual(store.getRoster(), []);
+    assert.deepStrictEqual(store.getRoster(), []);
+    assert.strictEqual(fake.messages.filter(message => message.severity === 'warning' && message.message.includes('team roster')).length, 1);
+  });
+});
+
+describe('TODO store index', () => {
+  let workspace: TestWorkspace;
+  let store: TodoStore;
+
+  beforeEach(() => {
+    workspace = TestWorkspace.create({ 'src/app.ts': 'one();\ntwo();\n', 'lib/util.ts': 'three();\n' });
+    store = new TodoStore();
+  });
+
+  afterEach(() => {
+    store.dispose();
+    workspace.dispose();
+  });
+
+  it('serves the TODOs of a line and follows updates', async () => {
+    const app = workspace.path('src/app.ts');
+    const todo = (file: string, line: number, message: string): Todo => ({ file: workspace.path(file), line, type: 'local', message, id: message });
+    await store.update('local', app, () => [todo('src/app.ts', 0, 'first'), todo('src/app.ts', 1, 'second'), todo('lib/util.ts', 1, 'other file')]);
+
+    assert.deepStrictEqual((await store.getLineTodos('local', app, 1)).map(found => found.message), ['second']);
+
+    await store.update('local', app, todos => todos.map(found => ({ ...found, line: 1 })));
+    assert.deepStrictEqual((await store.getLineTodos('local', app, 1)).map(found => found.message), ['first', 'second']);
+    assert.deepStrictEqual(await store.getLineTodos('local', app, 0), []);
+  });
+});
@@ -0,0 +1,141 @@
+import * as assert from 'assert';
+import { filterRemoteTodosByVisibility, RosterMember, Todo } from '../utils';
+import { computeWorkload } from '../workload';
+import { fake, TreeItem } from './fakeVscode';
+import { TestWorkspace, TEST_USER } from './workspace';
+
+const ADA = { name: 'Ada Lovelace', email: 'ada@example.com' };
+const GRACE = { name: 'Grace Hopper', email: 'grace@example.com' };
+
+function remoteTodo(message: string, fields: Partial<Todo> = {}): Todo {
+  return { file: 'src/app.ts', line: 0, type: 'remote', message, id: `remote-${message}`, author: ADA, assignees: [], ...fields };
+}
+
+describe('visibility modes', () => {
+  const todos = [
+    remoteTodo('mine', { assignees: [TEST_USER] }),
+    remoteTodo('ada', { assignees: [ADA] }),
+    remoteTodo('open', { author: GRACE })
+  ];
+  const messages = (visible: Todo[]) => visible.map(todo => todo.message);
+
+  it('shows the own, all, unassigned or one person\'s remote TODOs', () => {
+    assert.deepStrictEqual(messages(filterRemoteTodosByVisibility(todos, { mode: 'mine' }, TEST_USER.email)), ['mine']);
+    assert.deepStrictEqual(messages(filterRemoteTodosByVisibility(todos, { mode: 'team' }, TEST_USER.email)), ['mine', 'ada', 'open']);
+    assert.deepStrictEqual(messages(filterRemoteTodosByVisibility(todos, { mode: 'unassigned' }, TEST_USER.email)), ['open']);
+    assert.deepStrictEqual(messages(filterRemoteTodosByVisibility(todos, { mode: 'person', person: GRACE }, TEST_USER.email)), ['open']);
+  });
+
+  it('matches a person through their roster aliases', () => {
+    const roster: RosterMember[] = [{ name: 'Grace Hopper', emails: ['grace@navy.example', GRACE.email] }];
+    const person = { name: 'Grace Hopper', email: 'grace@navy.example' };
+
+    assert.deepStrictEqual(messages(filterRemoteTodosByVisibility(todos, { mode: 'person', person }, TEST_USER.email, roster)), ['open']);
+  });
+});
+
+describe('switching the visibility mode', () => {
+  let workspace: TestWorkspace;
+
+  beforeEach(async () => {
+    workspace = TestWorkspace.create({
+      'src/app.ts': 'one();\ntwo();\n',
+      '.awesometeam.json': JSON.stringify([ADA, GRACE]),
+      '.remotetodos.json': JSON.stringify([
+        remoteTodo('mine', { author: TEST_USER, assignees: [TEST_USER] }),
+        remoteTodo('ada', { line: 1, assignees: [ADA] })
+      ])
+    });
+    await workspace.activate();
+  });
+
+  afterEach(() => workspace.dispose());
+
+  async function lensTitles(): Promise<string> {
+    const document = await workspace.open('src/app.ts');
+    const [provider] = fake.codeLensProviders;
+    const lenses = await provider.provideCodeLenses(document, {});
+    return lenses.map((lens: { command: { title: string } }) => lens.command.title).join('\n');
+  }
+
+  function statusBarText(): string | undefined {
+    return fake.statusBarItems.find(item => item.command === 'awesomeTodo.setVisibility')?.text;
+  }
+
+  it('shows the own remote TODOs by default', async () => {
+    const titles = await lensTitles();
+
+    assert.strictEqual(statusBarText(), '$(eye) TODOs: Mine');
+    assert.ok(titles.includes('mine'));
+    assert.ok(!titles.includes('ada'));
+  });
+
+  it('shows every remote TODO in team mode', async () => {
+    fake.answer('Team');
+    await workspace.run('awesomeTodo.setVisibility');
+
+    const titles = await lensTitles();
+    assert.strictEqual(statusBarText(), '$(eye) TODOs: Team');
+    assert.ok(titles.includes('mine'));
+    assert.ok(titles.includes('ada'));
+  });
+
+  it('shows the remote TODOs of a picked team member', async () => {
+    fake.answer('Person', 'Ada Lovelace');
+    await workspace.run('awesomeTodo.setVisibility');
+
+    const titles = await lensTitles();
+    assert.strictEqual(statusBarText(), '$(eye) TODOs: Ada Lovelace');
+    assert.ok(!titles.includes('mine'));
+    assert.ok(titles.includes('ada'));
+  });
+});
+
+describe('team workload', () => {
+  const NOW = new Date('2024-06-01T12:00:00Z');
+
+  it('counts open, overdue and the oldest TODO per member across aliases', () => {
+    const roster: RosterMember[] = [{ name: 'Ada Lovelace', emails: [ADA.email, 'ada@home.example'] }];
+    const todos = [
+      remoteTodo('newer', { assignees: [ADA], createdAt: '2024-05-01T00:00:00Z', dueDate: '2024-05-15' }),
+      remoteTodo('older', { assignees: [{ name: 'ada', email: 'ada@home.example' }], createdAt: '2024-01-01T00:00:00Z' }),
+      remoteTodo('both aliases', { assignees: [ADA, { name: 'ada', email: 'ada@home.example' }], createdAt: '2024-03-01T00:00:00Z' }),
+      remoteTodo('finished', { assignees: [ADA], status: 'done' }),
+      remoteTodo('outsider', { assignees: [{ name: 'Guest', email: 'guest@example.com' }] })
+    ];
+
+    const workload = computeWorkload(todos, [ADA, GRACE], roster, NOW);
+
+    assert.deepStrictEqual(workload.map(entry => [entry.member.name, entry.inTeam, entry.todos.length, entry.overdue]), [
+      ['Ada Lovelace', true, 3, 1],
+      ['Grace Hopper', true, 0, 0],
+      ['Guest', false, 1, 0]
+    ]);
+    assert.deepStrictEqual(workload[0].todos.map(todo => todo.message), ['older', 'both aliases', 'newer']);
+    assert.strictEqual(workload[0].oldest?.message, 'older');
+  });
+
+  it('lists the members and the unassigned TODOs in the workload view', async () => {
+    const workspace = TestWorkspace.create({
+      '.awesometeam.json': JSON.stringify([ADA, GRACE]),
+      '.remotetodos.json': JSON.stringify([
+        remoteTodo('ada', { assignees: [ADA], createdAt: '2024-01-02T00:00:00Z', dueDate: '2024-01-03' }),
+        remoteTodo('nobody')
+      ])
+    });
+    try {
+      await workspace.activate();
+      const { treeDataProvider } = fake.treeViews.get('awesomeTodo.workloadView') as { treeDataProvider: any };
+      const elements = await treeDataProvider.getChildren();
+      const items: TreeItem[] = elements.map((element: unknown) => treeDataProvider.getTreeItem(element));
+
+      assert.deepStrictEqual(items.map(item => [item.label, item.description]), [
+        ['Ada Lovelace', '1 open · 1 overdue · oldest 2024-01-02'],
+        ['Grace Hopper', '0 open'],
+        ['Unassigned', '1 open']
+      ]);
+    } finally {
+      workspace.dispose();
+    }
+  });
+});
@@ -0,0 +1,98 @@
+// A throw-away git repository opened as the only workspace folder, with the extension activated in it
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { activate, deactivate } from '../extension';
+import { Todo, User } from '../utils';
+import { fake, TextDocument } from './fakeVscode';
+
+export const TEST_USER: User = { name: 'Test User', email: 'test@example.com' };
+
+export class TestWorkspace {
+  private context?: ReturnType<typeof fake.createExtensionContext>;
+
+  private constructor(public readonly root: string) {}
+
+  // Files are given relative to the root; the git identity is TEST_USER
+  static create(files: Record<string, string> = {}): TestWorkspace {
+    fake.reset();
+    const root = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'awesome-todo-')));
+    execFileSync('git', ['init', '-q'], { cwd: root });
+    execFileSync('git', ['config', 'user.name', TEST_USER.name], { cwd: root });
+    execFileSync('git', ['config', 'user.email', TEST_USER.email], { cwd: root });
+
+    const workspace = new TestWorkspace(root);
+    Object.entries(files).forEach(([file, content]) => workspace.write(file, content));
+    fake.setWorkspaceFolders([root]);
+    return workspace;
+  }
+
+  async activate(): Promise<void> {
+    this.context = fake.createExtensionContext(path.resolve(__dirname, '..', '..'));
+    activate(this.context as unknown as vscode.ExtensionContext);
+    await fake.settle();
+  }
+
+  path(file: string): string {
+    return path.join(this.root, ...file.split('/'));
+  }
+
+  write(file: string, content: string): void {
+    fs.mkdirSync(path.dirname(this.path(file)), { recursive: true });
+    fs.writeFileSync(this.path(file), content);
+  }
+
+  read(file: string): string {
+    return fs.readFileSync(this.path(file), 'utf8');
+  }
+
+  exists(file: string): boolean {
+    return fs.existsSync(this.path(file));
+  }
+
+  readJson<T>(file: string): T {
+    return JSON.parse(this.read(file));
+  }
+
+  // Write and commit a file as author, giving the repository a history to read
+  commit(file: string, content: string, author: User = TEST_USER, date?: string): void {
+    this.write(file, content);
+    const dates = date ? { GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date } : {};
+    execFileSync('git', ['add', '--', file], { cwd: this.root });
+    execFileSync('git', ['commit', '-q', '--no-gpg-sign', '-m', `Update ${file}`], {
+      cwd: this.root,
+      env: { ...process.env, GIT_AUTHOR_NAME: author.name, GIT_AUTHOR_EMAIL: author.email, ...dates }
+    });
+  }
+
+  // The TODO files as written to disk, paths stay workspace-relative
+  localTodos(): Todo[] {
+    return this.exists('.localtodos.json') ? this.readJson<Todo[]>('.localtodos.json') : [];
+  }
+
+  remoteTodos(): Todo[] {
+    return this.exists('.remotetodos.json') ? this.readJson<Todo[]>('.remotetodos.json') : [];
+  }
+
+  // Open a file in the active editor, the way the command handlers receive it
+  async open(file: string): Promise<TextDocument> {
+    const editor = await vscode.window.showTextDocument(vscode.Uri.file(this.path(file)));
+    await fake.settle();
+    return editor.document as unknown as TextDocument;
+  }
+
+  // Run a command and wait for the edits and store writes it triggers
+  async run(command: string, ...args: unknown[]): Promise<void> {
+    await vscode.commands.executeCommand(command, ...args);
+    await fake.settle();
+  }
+
+  dispose(): void {
+    deactivate();
+    this.context?.subscriptions.forEach(subscription => subscription.dispose());
+    fake.reset();
+    fs.rmSync(this.root, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,316 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { createRemoteTodoStorage, getFileStamp } from './storage';
+import { loadTodos, saveTodos, loadRemoteTodos, saveRemoteTodos, LOCAL_TODO_FILE, getGitUserInfo, getWorkspaceFolderForFile, filterRemoteTodosByVisibility, getIdentityEmails, readRoster, RosterMember, Todo, User, Visibility } from './utils';
+
+export type TodoStorageType = Todo['type'];
+
+export interface TodoStoreChangeEvent {
+  type: TodoStorageType;
+  folder: vscode.WorkspaceFolder;
+}
+
+interface FolderTodos {
+  local: Todo[];
+  remote: Todo[];
+}
+
+interface FileTodos extends FolderTodos {
+  lines: Record<TodoStorageType, Map<number, Todo[]>>; // The same TODOs by line
+}
+
+function copyTodos(todos: Todo[]): Todo[] {
+  return todos.map(todo => ({ ...todo }));
+}
+
+// Single source of TODOs for commands and providers. The TODO files of each workspace folder
+// are read once, kept in memory indexed by file, and written one change at a time.
+export class TodoStore implements vscode.Disposable {
+  private readonly _onDidChange = new vscode.EventEmitter<TodoStoreChangeEvent>();
+  public readonly onDidChange: vscode.Event<TodoStoreChangeEvent> = this._onDidChange.event;
+
+  private readonly folders = new Map<string, Promise<FolderTodos>>();
+  // Index of every folder's TODOs by the file and line they are anchored at
+  private readonly byFile = new Map<string, Map<string, FileTodos>>();
+  private writeQueue: Promise<unknown> = Promise.resolve();
+  // Folder and type of changes kept in memory only, see update
+  private readonly unsaved = new Set<string>();
+  // Stamp of the files of each folder and type when the store last read or wrote them, see reloadIfChanged
+  private readonly stamps = new Map<string, string>();
+  // Git identity per workspace folder, looked up once instead of on every hover
+  private readonly users = new Map<string, User | null>();
+  private readonly rosters = new Map<string, RosterMember[]>();
+  private visibility: Visibility = { mode: 'mine' };
+
+  // Git identity of the current user in the repository of filePath, or of the first folder
+  getUser(filePath?: string): User | null {
+    const folder = this.resolveFolder(filePath);
+    if (!folder) return null;
+
+    if (!this.users.has(folder.uri.fsPath)) {
+      this.users.set(folder.uri.fsPath, getGitUserInfo(folder.uri.fsPath));
+    }
+    return this.users.get(folder.uri.fsPath)!;
+  }
+
+  // Shared roster of the folder of filePath, empty without a readable roster file
+  getRoster(filePath?: string): RosterMember[] {
+    const folder = this.resolveFolder(filePath);
+    if (!folder) return [];
+
+    if (!this.rosters.has(folder.uri.fsPath)) {
+      let roster: RosterMember[] = [];
+      try {
+        roster = readRoster(folder.uri.fsPath) || [];
+      } catch (error) {
+        // Cached as empty, so the warning is shown once until the roster file changes
+        vscode.window.showWarningMessage(`Failed to read the team roster of ${folder.name}: ${error}`);
+      }
+      this.rosters.set(folder.uri.fsPath, roster);
+    }
+    return this.rosters.get(folder.uri.fsPath)!;
+  }
+
+  getVisibility(): Visibility {
+    return this.visibility;
+  }
+
+  // Switch which remote TODOs are shown, everything showing them refreshes through onDidChange
+  setVisibility(visibility: Visibility): void {
+    this.visibility = visibility;
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      this._onDidChange.fire({ type: 'remote', folder });
+    }
+  }
+
+  // The remote TODOs among todos shown in the current visibility mode. People are matched through
+  // any of their roster aliases, 'mine' uses the git identity of filePath's folder.
+  filterVisibleTodos(todos: Todo[], filePath?: string): Todo[] {
+    return filterRemoteTodosByVisibility(todos, this.visibility, this.getUser(filePath)?.email || '', this.getRoster(filePath));
+  }
+
+  async getLocalTodos(filePath?: string): Promise<Todo[]> {
+    return this.getTodos('local', filePath);
+  }
+
+  async getRemoteTodos(filePath?: string): Promise<Todo[]> {
+    return this.getTodos('remote', filePath);
+  }
+
+  // All TODOs of the workspace folder containing filePath, or of every folder
+  async getTodos(type: TodoStorageType, filePath?: string): Promise<Todo[]> {
+    if (!filePath) {
+      const todos: Todo[] = [];
+      for (const folder of vscode.workspace.workspaceFolders || []) {
+        todos.push(...await this.getTodos(type, folder.uri.fsPath));
+      }
+      return todos;
+    }
+
+    const todos = await this.loadFolder(filePath);
+    return todos ? copyTodos(todos[type]) : [];
+  }
+
+  // Remote TODOs shown in the current visibility mode, by default those the user authored or is
+  // assigned to, each folder filtered by its own git identity
+  async getVisibleRemoteTodos(filePath?: string): Promise<Todo[]> {
+    const folders = filePath
+      ? [this.resolveFolder(filePath)].filter((folder): folder is vscode.WorkspaceFolder => !!folder)
+      : vscode.workspace.workspaceFolders || [];
+
+    const todos: Todo[] = [];
+    for (const folder of folders) {
+      const remoteTodos = await this.getTodos('remote', folder.uri.fsPath);
+      todos.push(...this.filterVisibleTodos(remoteTodos, folder.uri.fsPath));
+    }
+    return todos;
+  }
+
+  // Remote TODOs assigned to the user under any of their roster aliases, whatever the visibility mode
+  async getAssignedRemoteTodos(): Promise<Todo[]> {
+    const todos: Todo[] = [];
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      const user = this.getUser(folder.uri.fsPath);
+      if (!user) continue;
+
+      const emails = getIdentityEmails(this.getRoster(folder.uri.fsPath), user.email);
+      const remoteTodos = await this.getTodos('remote', folder.uri.fsPath);
+      todos.push(...remoteTodos.filter(todo => todo.assignees?.some(assignee => emails.includes(assignee.email.toLowerCase()))));
+    }
+    return todos;
+  }
+
+  // TODOs anchored in one file, served from the index
+  async getFileTodos(type: TodoStorageType, filePath: string): Promise<Todo[]> {
+    const folder = this.resolveFolder(filePath);
+    await this.loadFolder(filePath);
+    return copyTodos((folder && this.byFile.get(folder.uri.fsPath)?.get(filePath)?.[type]) || []);
+  }
+
+  async getLineTodos(type: TodoStorageType, filePath: string, line: number): Promise<Todo[]> {
+    const folder = this.resolveFolder(filePath);
+    await this.loadFolder(filePath);
+    return copyTodos((folder && this.byFile.get(folder.uri.fsPath)?.get(filePath)?.lines[type].get(line)) || []);
+  }
+
+  // Replace all TODOs of a type in the workspace folder of filePath
+  async saveTodos(type: TodoStorageType, todos: Todo[], filePath: string): Promise<void> {
+    await this.update(type, filePath, () => todos);
+  }
+
+  // Read-modify-write of the TODOs of a type, queued behind every other write. The change receives
+  // copies it may edit in place; returning undefined leaves the TODOs untouched. Resolves to whether they changed.
+  // With persist false the change is only kept in memory until the next write or flush, e.g. lines
+  // shifted by unsaved edits.
+  update(type: TodoStorageType, filePath: string, change: (todos: Todo[]) => Todo[] | undefined, persist: boolean = true): Promise<boolean> {
+    return this.enqueue(async () => {
+      const folder = this.resolveFolder(filePath);
+      const todos = await this.loadFolder(filePath);
+      if (!folder || !todos) return false;
+
+      const updated = change(copyTodos(todos[type]));
+      if (!updated) return false;
+
+      if (persist) {
+        await this.write(folder, type, updated);
+      } else {
+        this.unsaved.add(this.folderKey(folder, type));
+      }
+      this.setFolderTodos(folder, { ...todos, [type]: copyTodos(updated) });
+      this._onDidChange.fire({ type, folder });
+      return true;
+    });
+  }
+
+  // Write the changes kept in memory for the workspace folder of filePath. Resolves to whether anything was written.
+  flush(filePath: string): Promise<boolean> {
+    return this.enqueue(async () => {
+      const folder = this.resolveFolder(filePath);
+      const todos = folder && this.folders.has(folder.uri.fsPath) ? await this.loadFolder(filePath) : undefined;
+      if (!folder || !todos) return false;
+
+      let written = false;
+      for (const type of ['local', 'remote'] as TodoStorageType[]) {
+        if (this.unsaved.has(this.folderKey(folder, type))) {
+          await this.write(folder, type, todos[type]);
+          written = true;
+        }
+      }
+      return written;
+    });
+  }
+
+  // Run other multi-step file work (e.g. storage migration) without interleaving with writes
+  enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(task, task);
+    this.writeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  // Re-read a workspace folder from disk after its files changed outside of the store.
+  // Resolves to the remote TODOs before (undefined when not loaded yet) and after the reload.
+  reload(folder: vscode.WorkspaceFolder): Promise<{ before: Todo[] | undefined; after: Todo[] }> {
+    return this.enqueue(() => this.reloadFolder(folder));
+  }
+
+  // Like reload for file watcher events, but TODO files still as the store last read or wrote them,
+  // e.g. after its own writes, are not re-read: the caches and changes kept in memory stay.
+  // teamChanged re-reads the roster.
+  reloadIfChanged(folder: vscode.WorkspaceFolder, teamChanged: boolean): Promise<{ before: Todo[] | undefined; after: Todo[] }> {
+    return this.enqueue(async () => {
+      const loaded = await this.folders.get(folder.uri.fsPath);
+      const unchanged = loaded && (['local', 'remote'] as TodoStorageType[])
+        .every(type => this.stamps.get(this.folderKey(folder, type)) === this.getStamp(folder, type));
+      if (!unchanged) {
+        return this.reloadFolder(folder);
+      }
+
+      if (teamChanged) {
+        this.rosters.delete(folder.uri.fsPath);
+        this._onDidChange.fire({ type: 'remote', folder });
+      }
+      return { before: copyTodos(loaded.remote), after: copyTodos(loaded.remote) };
+    });
+  }
+
+  private async reloadFolder(folder: vscode.WorkspaceFolder): Promise<{ before: Todo[] | undefined; after: Todo[] }> {
+    const before = await this.folders.get(folder.uri.fsPath);
+    this.folders.delete(folder.uri.fsPath);
+    this.unsaved.delete(this.folderKey(folder, 'local'));
+    this.unsaved.delete(this.folderKey(folder, 'remote'));
+    this.users.delete(folder.uri.fsPath);
+    this.rosters.delete(folder.uri.fsPath);
+
+    const after = await this.loadFolder(folder.uri.fsPath);
+    this._onDidChange.fire({ type: 'local', folder });
+    this._onDidChange.fire({ type: 'remote', folder });
+    return { before: before && copyTodos(before.remote), after: copyTodos(after?.remote || []) };
+  }
+
+  private async write(folder: vscode.WorkspaceFolder, type: TodoStorageType, todos: Todo[]): Promise<void> {
+    if (type === 'remote') {
+      await saveRemoteTodos(todos, folder.uri.fsPath);
+    } else {
+      await saveTodos(todos, folder.uri.fsPath);
+    }
+    this.unsaved.delete(this.folderKey(folder, type));
+    this.stamps.set(this.folderKey(folder, type), this.getStamp(folder, type));
+  }
+
+  private getStamp(folder: vscode.WorkspaceFolder, type: TodoStorageType): string {
+    const root = folder.uri.fsPath;
+    return getFileStamp(type === 'local' ? [path.join(root, LOCAL_TODO_FILE)] : createRemoteTodoStorage(root).files());
+  }
+
+  private folderKey(folder: vscode.WorkspaceFolder, type: TodoStorageType): string {
+    return `${type}:${folder.uri.fsPath}`;
+  }
+
+  private resolveFolder(filePath?: string): vscode.WorkspaceFolder | undefined {
+    return filePath ? getWorkspaceFolderForFile(filePath) : vscode.workspace.workspaceFolders?.[0];
+  }
+
+  private loadFolder(filePath?: string): Promise<FolderTodos | undefined> {
+    const folder = this.resolveFolder(filePath);
+    if (!folder) return Promise.resolve(undefined);
+
+    let loaded = this.folders.get(folder.uri.fsPath);
+    if (!loaded) {
+      loaded = Promise.all([loadTodos(folder.uri.fsPath), loadRemoteTodos(folder.uri.fsPath)])
+        .then(([local, remote]) => {
+          const todos = { local, remote };
+          this.stamps.set(this.folderKey(folder, 'local'), this.getStamp(folder, 'local'));
+          this.stamps.set(this.folderKey(folder, 'remote'), this.getStamp(folder, 'remote'));
+          this.indexFolder(folder, todos);
+          return todos;
+        });
+      this.folders.set(folder.uri.fsPath, loaded);
+    }
+    return loaded;
+  }
+
+  private setFolderTodos(folder: vscode.WorkspaceFolder, todos: FolderTodos): void {
+    this.folders.set(folder.uri.fsPath, Promise.resolve(todos));
+    this.indexFolder(folder, todos);
+  }
+
+  private indexFolder(folder: vscode.WorkspaceFolder, todos: FolderTodos): void {
+    const index = new Map<string, FileTodos>();
+    const add = (type: TodoStorageType, todo: Todo) => {
+      let entry = index.get(todo.file);
+      if (!entry) {
+        entry = { local: [], remote: [], lines: { local: new Map(), remote: new Map() } };
+        index.set(todo.file, entry);
+      }
+      entry[type].push(todo);
+      entry.lines[type].set(todo.line, [...(entry.lines[type].get(todo.line) || []), todo]);
+    };
+    todos.local.forEach(todo => add('local', todo));
+    todos.remote.forEach(todo => add('remote', todo));
+    this.byFile.set(folder.uri.fsPath, index);
+  }
+
+  dispose(): void {
+    this._onDidChange.dispose();
+  }
+}
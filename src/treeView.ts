@@ -0,0 +1,241 @@
+import * as vscode from 'vscode';
+import { getTagDefinition } from './tags';
+import { TodoStore } from './todoStore';
+import { getTodoStatus, formatTodoDetails, formatTodoLocation, loadTeamMembers, STATUS_LABELS, Todo, TodoStatus } from './utils';
+import { computeWorkload, findUnassignedTodos, MemberWorkload } from './workload';
+
+export type TodoGrouping = 'file' | 'assignee' | 'author' | 'status';
+
+export const GROUPING_LABELS: Record<TodoGrouping, string> = {
+  file: 'File',
+  assignee: 'Assignee',
+  author: 'Author',
+  status: 'Status'
+};
+
+export type TodoTreeElement =
+  | { kind: 'group'; label: string; todos: Todo[] }
+  | { kind: 'todo'; todo: Todo; grouping: TodoGrouping };
+
+const STATUS_ORDER: TodoStatus[] = ['open', 'in-progress', 'blocked', 'done'];
+
+export class TodoTreeProvider implements vscode.TreeDataProvider<TodoTreeElement>, vscode.Disposable {
+  private _onDidChangeTreeData: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+  public readonly onDidChangeTreeData: vscode.Event<void> = this._onDidChangeTreeData.event;
+
+  private _onDidLoadTodos: vscode.EventEmitter<number> = new vscode.EventEmitter<number>();
+  // Fires with the number of TODOs shown after every reload, used for the view badge
+  public readonly onDidLoadTodos: vscode.Event<number> = this._onDidLoadTodos.event;
+
+  private readonly storeListener: vscode.Disposable;
+
+  constructor(private readonly store: TodoStore, private grouping: TodoGrouping) {
+    this.storeListener = store.onDidChange(() => this.refresh());
+  }
+
+  getGrouping(): TodoGrouping {
+    return this.grouping;
+  }
+
+  setGrouping(grouping: TodoGrouping): void {
+    this.grouping = grouping;
+    this.refresh();
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: TodoTreeElement): vscode.TreeItem {
+    if (element.kind === 'group') {
+      const item = new vscode.TreeItem(element.label, vscode.TreeItemCollapsibleState.Expanded);
+      item.description = `${element.todos.length}`;
+      item.contextValue = 'todoGroup';
+      if (this.grouping === 'file' && element.todos.length > 0) {
+        item.resourceUri = vscode.Uri.file(element.todos[0].file);
+        item.iconPath = vscode.ThemeIcon.File;
+      }
+      return item;
+    }
+
+    return createTodoItem(element.todo, element.grouping === 'file' ? `Line ${element.todo.line + 1}` : formatTodoLocation(element.todo));
+  }
+
+  async getChildren(element?: TodoTreeElement): Promise<TodoTreeElement[]> {
+    if (element) {
+      return element.kind === 'group'
+        ? element.todos.map(todo => ({ kind: 'todo', todo, grouping: this.grouping }))
+        : [];
+    }
+
+    if (!vscode.workspace.workspaceFolders?.length) {
+      return [];
+    }
+
+    // Every workspace folder, each with the remote TODOs visible to its own git identity
+    const localTodos = await this.store.getLocalTodos();
+    const visibleRemoteTodos = await this.store.getVisibleRemoteTodos();
+    const todos = [...localTodos, ...visibleRemoteTodos];
+
+    this._onDidLoadTodos.fire(todos.length);
+    return groupTodos(todos, this.grouping);
+  }
+
+  dispose(): void {
+    this.storeListener.dispose();
+    this._onDidChangeTreeData.dispose();
+    this._onDidLoadTodos.dispose();
+  }
+}
+
+// Tree item of a single TODO, clicking it reveals the TODO in its file
+function createTodoItem(todo: Todo, description: string): vscode.TreeItem {
+  const isRemote = todo.type === 'remote';
+  const tag = getTagDefinition(todo.kind);
+  const item = new vscode.TreeItem(`${tag.icon} ${todo.message}`, vscode.TreeItemCollapsibleState.None);
+  item.description = description;
+  item.iconPath = new vscode.ThemeIcon(todo.orphaned ? 'warning' : isRemote ? 'globe' : 'note');
+  // Unassignable remote items (e.g. NOTE) get no assign action
+  item.contextValue = isRemote ? (tag.assignable ? 'remoteTodo' : 'remoteTodoUnassignable') : 'localTodo';
+
+  const tooltipLines = [
+    `${isRemote ? 'Remote' : 'Local'} ${tag.tag}: ${todo.message}`,
+    `${STATUS_LABELS[getTodoStatus(todo)]} · ${formatTodoDetails(todo)}`
+  ];
+  if (isRemote) {
+    tooltipLines.push(`Author: ${todo.author?.name || 'Unknown'}`);
+    tooltipLines.push(`Assignees: ${todo.assignees?.map(a => a.name).join(', ') || 'None'}`);
+  }
+  item.tooltip = tooltipLines.join('\n');
+
+  const position = new vscode.Position(todo.line, 0);
+  item.command = {
+    command: 'vscode.open',
+    title: 'Open TODO',
+    arguments: [vscode.Uri.file(todo.file), { selection: new vscode.Range(position, position) }]
+  };
+  return item;
+}
+
+function groupTodos(todos: Todo[], grouping: TodoGrouping): TodoTreeElement[] {
+  const groups = new Map<string, Todo[]>();
+  const addToGroup = (label: string, todo: Todo) => {
+    groups.set(label, [...(groups.get(label) || []), todo]);
+  };
+
+  for (const todo of todos) {
+    if (grouping === 'file') {
+      addToGroup(vscode.workspace.asRelativePath(todo.file), todo);
+    } else if (grouping === 'status') {
+      addToGroup(STATUS_LABELS[getTodoStatus(todo)], todo);
+    } else if (todo.type === 'local') {
+      addToGroup('Local TODOs', todo);
+    } else if (grouping === 'author') {
+      addToGroup(todo.author?.name || 'Unknown', todo);
+    } else if (todo.assignees && todo.assignees.length > 0) {
+      // A TODO with several assignees is listed under each of them
+      todo.assignees.forEach(assignee => addToGroup(assignee.name, todo));
+    } else {
+      addToGroup('Unassigned', todo);
+    }
+  }
+
+  const labels = Array.from(groups.keys());
+  if (grouping === 'status') {
+    const order = STATUS_ORDER.map(status => STATUS_LABELS[status]);
+    labels.sort((a, b) => order.indexOf(a) - order.indexOf(b));
+  } else {
+    labels.sort((a, b) => a.localeCompare(b));
+  }
+
+  return labels.map(label => ({
+    kind: 'group',
+    label,
+    todos: groups.get(label)!.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line)
+  }));
+}
+
+export type WorkloadTreeElement =
+  | { kind: 'member'; workload: MemberWorkload; folder?: vscode.WorkspaceFolder }
+  | { kind: 'unassigned'; todos: Todo[] }
+  | { kind: 'todo'; todo: Todo };
+
+function formatDate(value?: string): string | undefined {
+  return value ? value.slice(0, 10) : undefined;
+}
+
+// Open remote TODOs per team member of every workspace folder, whatever the visibility mode
+export class WorkloadTreeProvider implements vscode.TreeDataProvider<WorkloadTreeElement>, vscode.Disposable {
+  private _onDidChangeTreeData: vscode.EventEmitter<void> = new vscode.EventEmitter<void>();
+  public readonly onDidChangeTreeData: vscode.Event<void> = this._onDidChangeTreeData.event;
+
+  private readonly storeListener: vscode.Disposable;
+
+  constructor(private readonly store: TodoStore) {
+    this.storeListener = store.onDidChange(() => this.refresh());
+  }
+
+  refresh(): void {
+    this._onDidChangeTreeData.fire();
+  }
+
+  getTreeItem(element: WorkloadTreeElement): vscode.TreeItem {
+    if (element.kind === 'todo') {
+      return createTodoItem(element.todo, formatTodoLocation(element.todo));
+    }
+
+    if (element.kind === 'unassigned') {
+      const item = new vscode.TreeItem('Unassigned', vscode.TreeItemCollapsibleState.Collapsed);
+      item.description = `${element.todos.length} open`;
+      item.iconPath = new vscode.ThemeIcon('question');
+      return item;
+    }
+
+    const { member, todos, overdue, oldest, inTeam } = element.workload;
+    const item = new vscode.TreeItem(member.name, todos.length > 0 ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+    const oldestDate = formatDate(oldest?.createdAt);
+    item.description = [
+      `${todos.length} open`,
+      ...(overdue > 0 ? [`${overdue} overdue`] : []),
+      ...(oldestDate ? [`oldest ${oldestDate}`] : []),
+      ...(element.folder ? [element.folder.name] : [])
+    ].join(' · ');
+    item.iconPath = new vscode.ThemeIcon(overdue > 0 ? 'warning' : 'person');
+    item.contextValue = 'workloadMember';
+    item.tooltip = [
+      `${member.name} <${member.email}>${inTeam ? '' : ' (not in the team)'}`,
+      `${todos.length} open, ${overdue} overdue`,
+      ...(oldest ? [`Oldest: ${oldest.message}${oldestDate ? ` (created ${oldestDate})` : ''}`] : [])
+    ].join('\n');
+    return item;
+  }
+
+  async getChildren(element?: WorkloadTreeElement): Promise<WorkloadTreeElement[]> {
+    if (element) {
+      const todos = element.kind === 'member' ? element.workload.todos : element.kind === 'unassigned' ? element.todos : [];
+      return todos.map(todo => ({ kind: 'todo', todo }));
+    }
+
+    const folders = vscode.workspace.workspaceFolders || [];
+    const elements: WorkloadTreeElement[] = [];
+    const unassigned: Todo[] = [];
+    for (const folder of folders) {
+      const root = folder.uri.fsPath;
+      const todos = await this.store.getRemoteTodos(root);
+      const workloads = computeWorkload(todos, await loadTeamMembers(root), this.store.getRoster(root));
+      elements.push(...workloads.map(workload => ({ kind: 'member' as const, workload, ...(folders.length > 1 ? { folder } : {}) })));
+      // Items that can not be assigned (e.g. NOTE) are nobody's work
+      unassigned.push(...findUnassignedTodos(todos).filter(todo => getTagDefinition(todo.kind).assignable));
+    }
+
+    if (unassigned.length > 0) {
+      elements.push({ kind: 'unassigned', todos: unassigned });
+    }
+    return elements;
+  }
+
+  dispose(): void {
+    this.storeListener.dispose();
+    this._onDidChangeTreeData.dispose();
+  }
+}
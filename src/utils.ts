@@ -1,48 +1,80 @@
-import * as fs from 'fs';
-import * as path from 'path';
 import * as vscode from 'vscode';
-import { execSync } from 'child_process';
+import { getGitUser, getTodoStatus, isTodoOverdue, readLocalTodos, readRemoteTodos, readTeam, resolveTodoPriority, toStoredPath, writeLocalTodos, writeRemoteTodos, writeTeamMembers, LoadedTodos, LOCAL_TODO_FILE, PRIORITY_LABELS, Todo, TodoPriority, User } from './core';
+import { findRosterMember, readRoster, writeRoster, RosterMember } from './roster';
+import { detectRemoteStorageLayout, REMOTE_TODO_FILE, SHARD_DIRECTORY } from './storage';
+import { getTagDefinitions } from './tags';
 
-export interface User {
-  name: string;
-  email: string;
+// The model, file formats and filtering rules live in the editor-agnostic core,
+// this module ties them to workspace folders, settings and notifications.
+export * from './core';
+export * from './roster';
+
+// Workspace folder a file belongs to. Files outside every folder only fall back to the
+// folder of a single-root workspace, in a multi-root workspace there is no right guess.
+export function getWorkspaceFolderForFile(filePath: string): vscode.WorkspaceFolder | undefined {
+  const folders = vscode.workspace.workspaceFolders || [];
+  return vscode.workspace.getWorkspaceFolder(vscode.Uri.file(filePath))
+    || (folders.length === 1 ? folders[0] : undefined);
+}
+
+// Let the user choose the workspace folder a command applies to, asking only in multi-root workspaces
+export async function pickWorkspaceFolder(placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+  const folders = vscode.workspace.workspaceFolders || [];
+  if (folders.length <= 1) {
+    if (folders.length === 0) {
+      vscode.window.showErrorMessage('No workspace folder found.');
+    }
+    return folders[0];
+  }
+  return vscode.window.showWorkspaceFolderPick({ placeHolder });
+}
+
+// The workspace folder of the active editor's file, asking like pickWorkspaceFolder when there is none
+export async function getActiveWorkspaceFolder(placeHolder: string): Promise<vscode.WorkspaceFolder | undefined> {
+  const document = vscode.window.activeTextEditor?.document;
+  const folder = document && document.uri.scheme === 'file' ? vscode.workspace.getWorkspaceFolder(document.uri) : undefined;
+  return folder || pickWorkspaceFolder(placeHolder);
+}
+
+function getTargetFolder(filePath?: string): vscode.WorkspaceFolder | undefined {
+  return filePath ? getWorkspaceFolderForFile(filePath) : vscode.workspace.workspaceFolders?.[0];
+}
+
+// Legacy absolute paths are rewritten once, when the todos are first loaded
+function migrateStoredPaths(storageName: string, loaded: LoadedTodos, persist: () => void): Todo[] {
+  if (loaded.migrated) {
+    try {
+      persist();
+    } catch (error) {
+      vscode.window.showErrorMessage(`Failed to migrate ${storageName}: ${error}`);
+    }
+  }
+  return loaded.todos;
 }
 
-export interface Todo {
-  file: string;
-  line: number;
-  column?: number; // Add column position for multiple todos per line
-  type: 'local' | 'remote';
-  message: string;
-  id?: string; // Add unique ID for multiple todos per line
-  // Remote todo specific fields
-  author?: User;
-  assignees?: User[];
-  createdAt?: string;
-  updatedAt?: string;
+// Workspace-relative, forward-slash form of a path, as written to the TODO files
+export function toWorkspaceRelativePath(filePath: string): string {
+  const workspaceFolder = getWorkspaceFolderForFile(filePath);
+  return workspaceFolder ? toStoredPath(workspaceFolder.uri.fsPath, filePath) : filePath;
 }
 
-function getWorkspaceFolderForFile(filePath: string): vscode.WorkspaceFolder | undefined {
-  return vscode.workspace.workspaceFolders?.find(folder =>
-    filePath.startsWith(folder.uri.fsPath)
-  ) || vscode.workspace.workspaceFolders?.[0];
+// "file:line" for lists, prefixed with the workspace folder name in multi-root workspaces
+export function formatTodoLocation(todo: Todo): string {
+  const multiRoot = (vscode.workspace.workspaceFolders?.length || 0) > 1;
+  return `${vscode.workspace.asRelativePath(todo.file, multiRoot)}:${todo.line + 1}`;
 }
 
 export async function loadTodos(filePath?: string): Promise<Todo[]> {
-  const workspaceFolder = filePath ? getWorkspaceFolderForFile(filePath) : vscode.workspace.workspaceFolders?.[0];
+  const workspaceFolder = getTargetFolder(filePath);
   if (!workspaceFolder) {
     vscode.window.showErrorMessage('No workspace folder found.');
     return [];
   }
 
-  const todoFile = path.join(workspaceFolder.uri.fsPath, '.localtodos.json');
+  const root = workspaceFolder.uri.fsPath;
   try {
-    if (!fs.existsSync(todoFile)) {
-      return [];
-    }
-    const data = fs.readFileSync(todoFile, 'utf8');
-    const todos = JSON.parse(data);
-    return Array.isArray(todos) ? todos : [];
+    const loaded = readLocalTodos(root);
+    return migrateStoredPaths(LOCAL_TODO_FILE, loaded, () => writeLocalTodos(root, loaded.todos));
   } catch (error) {
     vscode.window.showErrorMessage(`Failed to load TODOs: ${error}`);
     return [];
@@ -50,55 +82,46 @@ export async function loadTodos(filePath?: string): Promise<Todo[]> {
 }
 
 export async function saveTodos(todos: Todo[], filePath?: string): Promise<void> {
-  const workspaceFolder = filePath ? getWorkspaceFolderForFile(filePath) : vscode.workspace.workspaceFolders?.[0];
+  const workspaceFolder = getTargetFolder(filePath);
   if (!workspaceFolder) {
     vscode.window.showErrorMessage('No workspace folder found.');
     return;
   }
 
-  const todoFile = path.join(workspaceFolder.uri.fsPath, '.localtodos.json');
   try {
-    fs.writeFileSync(todoFile, JSON.stringify(todos, null, 2));
+    writeLocalTodos(workspaceFolder.uri.fsPath, todos);
   } catch (error) {
     vscode.window.showErrorMessage(`Failed to save TODOs: ${error}`);
   }
 }
 
-// Git integration functions
-export function getGitUserInfo(): User | null {
-  try {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) return null;
-
-    const gitName = execSync('git config user.name', { cwd: workspaceFolder.uri.fsPath, encoding: 'utf8' }).trim();
-    const gitEmail = execSync('git config user.email', { cwd: workspaceFolder.uri.fsPath, encoding: 'utf8' }).trim();
+// Git integration functions, every workspace folder may be a different repository with its own identity
+export function getGitUserInfo(filePath?: string): User | null {
+  const workspaceFolder = getTargetFolder(filePath);
+  if (!workspaceFolder) return null;
 
-    if (gitName && gitEmail) {
-      return { name: gitName, email: gitEmail };
-    }
-  } catch (error) {
+  const user = getGitUser(workspaceFolder.uri.fsPath);
+  if (!user) {
     // Git not configured or not a git repository
-    vscode.window.showWarningMessage('Git user name/email not configured. Please configure git first.');
+    const where = (vscode.workspace.workspaceFolders?.length || 0) > 1 ? ` in ${workspaceFolder.name}` : '';
+    vscode.window.showWarningMessage(`Git user name/email not configured${where}. Please configure git first.`);
   }
-  return null;
+  return user;
 }
 
 // Remote todo storage functions
 export async function loadRemoteTodos(filePath?: string): Promise<Todo[]> {
-  const workspaceFolder = filePath ? getWorkspaceFolderForFile(filePath) : vscode.workspace.workspaceFolders?.[0];
+  const workspaceFolder = getTargetFolder(filePath);
   if (!workspaceFolder) {
     vscode.window.showErrorMessage('No workspace folder found.');
     return [];
   }
 
-  const remoteTodoFile = path.join(workspaceFolder.uri.fsPath, '.remotetodos.json');
+  const root = workspaceFolder.uri.fsPath;
   try {
-    if (!fs.existsSync(remoteTodoFile)) {
-      return [];
-    }
-    const data = fs.readFileSync(remoteTodoFile, 'utf8');
-    const todos = JSON.parse(data);
-    return Array.isArray(todos) ? todos : [];
+    const loaded = readRemoteTodos(root);
+    const storageName = detectRemoteStorageLayout(root) === 'sharded' ? `${SHARD_DIRECTORY}/` : REMOTE_TODO_FILE;
+    return migrateStoredPaths(storageName, loaded, () => writeRemoteTodos(root, loaded.todos));
   } catch (error) {
     vscode.window.showErrorMessage(`Failed to load remote TODOs: ${error}`);
     return [];
@@ -106,43 +129,52 @@ export async function loadRemoteTodos(filePath?: string): Promise<Todo[]> {
 }
 
 export async function saveRemoteTodos(todos: Todo[], filePath?: string): Promise<void> {
-  const workspaceFolder = filePath ? getWorkspaceFolderForFile(filePath) : vscode.workspace.workspaceFolders?.[0];
+  const workspaceFolder = getTargetFolder(filePath);
   if (!workspaceFolder) {
     vscode.window.showErrorMessage('No workspace folder found.');
     return;
   }
 
-  const remoteTodoFile = path.join(workspaceFolder.uri.fsPath, '.remotetodos.json');
   try {
-    fs.writeFileSync(remoteTodoFile, JSON.stringify(todos, null, 2));
+    writeRemoteTodos(workspaceFolder.uri.fsPath, todos);
   } catch (error) {
     vscode.window.showErrorMessage(`Failed to save remote TODOs: ${error}`);
   }
 }
 
-// Filter remote todos based on user visibility
-export function filterVisibleRemoteTodos(todos: Todo[], userEmail: string): Todo[] {
-  return todos.filter(todo =>
-    todo.type === 'remote' &&
-    (todo.author?.email === userEmail || todo.assignees?.some(assignee => assignee.email === userEmail))
-  );
+// Priority from the todo, or the default of its kind in the configured tag vocabulary
+export function getTodoPriority(todo: Todo): TodoPriority {
+  return resolveTodoPriority(todo, getTagDefinitions());
+}
+
+// Short summary of priority, due date and labels for CodeLens, hovers and lists
+export function formatTodoDetails(todo: Todo): string {
+  const parts = [PRIORITY_LABELS[getTodoPriority(todo)]];
+  if (todo.dueDate) {
+    parts.push(isTodoOverdue(todo) ? `⏰ overdue since ${todo.dueDate}` : `📅 due ${todo.dueDate}`);
+  }
+  if (todo.labels && todo.labels.length > 0) {
+    parts.push(`🏷️ ${todo.labels.join(', ')}`);
+  }
+  return parts.join(' · ');
+}
+
+// Completed todos are hidden from the editor unless the user opted in
+export function filterEditorTodos(todos: Todo[]): Todo[] {
+  const showCompleted = vscode.workspace.getConfiguration('awesomeTodo').get<boolean>('showCompletedTodos', false);
+  return showCompleted ? todos : todos.filter(todo => getTodoStatus(todo) !== 'done');
 }
 
-// Team management functions
+// Team management functions. With a shared roster in the folder, the team is the roster
+// and the personal team file is left alone.
 export async function loadTeamMembers(filePath?: string): Promise<User[]> {
-  const workspaceFolder = filePath ? getWorkspaceFolderForFile(filePath) : vscode.workspace.workspaceFolders?.[0];
+  const workspaceFolder = getTargetFolder(filePath);
   if (!workspaceFolder) {
     return [];
   }
 
-  const teamFile = path.join(workspaceFolder.uri.fsPath, '.awesometeam.json');
   try {
-    if (!fs.existsSync(teamFile)) {
-      return [];
-    }
-    const data = fs.readFileSync(teamFile, 'utf8');
-    const team = JSON.parse(data);
-    return Array.isArray(team) ? team : [];
+    return readTeam(workspaceFolder.uri.fsPath);
   } catch (error) {
     vscode.window.showErrorMessage(`Failed to load team members: ${error}`);
     return [];
@@ -150,37 +182,85 @@ export async function loadTeamMembers(filePath?: string): Promise<User[]> {
 }
 
 export async function saveTeamMembers(team: User[], filePath?: string): Promise<void> {
-  const workspaceFolder = filePath ? getWorkspaceFolderForFile(filePath) : vscode.workspace.workspaceFolders?.[0];
+  const workspaceFolder = getTargetFolder(filePath);
   if (!workspaceFolder) {
     vscode.window.showErrorMessage('No workspace folder found.');
     return;
   }
 
-  const teamFile = path.join(workspaceFolder.uri.fsPath, '.awesometeam.json');
   try {
-    fs.writeFileSync(teamFile, JSON.stringify(team, null, 2));
+    writeTeamMembers(workspaceFolder.uri.fsPath, team);
   } catch (error) {
     vscode.window.showErrorMessage(`Failed to save team members: ${error}`);
   }
 }
 
-export async function addTeamMember(name: string, email: string): Promise<boolean> {
-  const existingTeam = await loadTeamMembers();
-  const isDuplicate = existingTeam.some(member => member.email === email);
+// Shared roster of the folder, undefined when there is none or it cannot be read
+export async function loadRoster(filePath?: string): Promise<RosterMember[] | undefined> {
+  const workspaceFolder = getTargetFolder(filePath);
+  if (!workspaceFolder) {
+    return undefined;
+  }
+
+  try {
+    return readRoster(workspaceFolder.uri.fsPath);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to load team roster: ${error}`);
+    return undefined;
+  }
+}
+
+export async function saveRoster(members: RosterMember[], filePath?: string): Promise<void> {
+  const workspaceFolder = getTargetFolder(filePath);
+  if (!workspaceFolder) {
+    vscode.window.showErrorMessage('No workspace folder found.');
+    return;
+  }
+
+  try {
+    writeRoster(workspaceFolder.uri.fsPath, members);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to save team roster: ${error}`);
+  }
+}
+
+export async function addTeamMember(name: string, email: string, filePath?: string): Promise<boolean> {
+  const roster = await loadRoster(filePath);
+  const existingTeam = await loadTeamMembers(filePath);
+  const isDuplicate = roster
+    ? !!findRosterMember(roster, email)
+    : existingTeam.some(member => member.email === email);
 
   if (isDuplicate) {
     vscode.window.showWarningMessage(`Team member with email ${email} already exists.`);
     return false;
   }
 
+  if (roster) {
+    await saveRoster([...roster, { name, emails: [email] }], filePath);
+    return true;
+  }
+
   const newMember: User = { name, email };
   existingTeam.push(newMember);
-  await saveTeamMembers(existingTeam);
+  await saveTeamMembers(existingTeam, filePath);
   return true;
 }
 
-export async function removeTeamMember(email: string): Promise<boolean> {
-  const existingTeam = await loadTeamMembers();
+// In the roster, removing any email of a member removes the member with all their aliases
+export async function removeTeamMember(email: string, filePath?: string): Promise<boolean> {
+  const roster = await loadRoster(filePath);
+  if (roster) {
+    const member = roster.find(candidate => candidate.emails.some(alias => alias.toLowerCase() === email.toLowerCase()));
+    if (!member) {
+      vscode.window.showWarningMessage(`Team member with email ${email} not found.`);
+      return false;
+    }
+    await saveRoster(roster.filter(candidate => candidate !== member), filePath);
+    return true;
+  }
+
+  const existingTeam = await loadTeamMembers(filePath);
   const filteredTeam = existingTeam.filter(member => member.email !== email);
 
   if (filteredTeam.length === existingTeam.length) {
@@ -188,6 +268,6 @@ export async function removeTeamMember(email: string): Promise<boolean> {
     return false;
   }
 
-  await saveTeamMembers(filteredTeam);
+  await saveTeamMembers(filteredTeam, filePath);
   return true;
 }
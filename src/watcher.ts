@@ -0,0 +1,127 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ROSTER_FILE } from './roster';
+import { REMOTE_TODO_FILE, SHARD_DIRECTORY, UNRESOLVED_FILE } from './storage';
+import { TodoStore } from './todoStore';
+import { filterVisibleRemoteTodos, getIdentityEmails, RosterMember, TEAM_FILE, Todo, User } from './utils';
+
+const WATCHED_FILES = `{.localtodos.json,${REMOTE_TODO_FILE},.awesometeam.json,${ROSTER_FILE},${SHARD_DIRECTORY}/**/*.json,${SHARD_DIRECTORY}/${UNRESOLVED_FILE}}`;
+
+// A git pull touches many shards at once, changes are handled together after this delay
+const RELOAD_DELAY = 500;
+
+// Fields that change when the code around a TODO moves, not worth a notification
+const POSITION_FIELDS = ['line', 'column', 'anchor', 'orphaned'];
+
+function isAssignedTo(todo: Todo, emails: string[]): boolean {
+  return todo.assignees?.some(assignee => emails.includes(assignee.email.toLowerCase())) || false;
+}
+
+function withoutPositionFields(todo: Todo): string {
+  const fields = Object.entries(todo).filter(([field]) => !POSITION_FIELDS.includes(field));
+  return JSON.stringify(fields);
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? '' : 's'}`;
+}
+
+// Describe what changed in the remote TODOs visible to the user, e.g. "2 new TODOs assigned to you by Alice"
+export function summarizeRemoteChanges(before: Todo[], after: Todo[], user: User, roster: RosterMember[] = []): string[] {
+  const emails = getIdentityEmails(roster, user.email);
+  const visibleBefore = filterVisibleRemoteTodos(before, user.email, roster);
+  const visibleAfter = filterVisibleRemoteTodos(after, user.email, roster);
+  const beforeById = new Map(visibleBefore.map(todo => [todo.id, todo]));
+  const afterIds = new Set(visibleAfter.map(todo => todo.id));
+
+  const assignedByAuthor = new Map<string, number>();
+  let added = 0;
+  let updated = 0;
+
+  for (const todo of visibleAfter) {
+    const previous = beforeById.get(todo.id);
+    if (isAssignedTo(todo, emails) && (!previous || !isAssignedTo(previous, emails))) {
+      const author = todo.author?.name || 'Unknown';
+      assignedByAuthor.set(author, (assignedByAuthor.get(author) || 0) + 1);
+    } else if (!previous) {
+      added++;
+    } else if (withoutPositionFields(previous) !== withoutPositionFields(todo)) {
+      updated++;
+    }
+  }
+  const removed = visibleBefore.filter(todo => !afterIds.has(todo.id)).length;
+
+  const summary: string[] = [];
+  assignedByAuthor.forEach((count, author) => summary.push(`${plural(count, 'new TODO')} assigned to you by ${author}`));
+  if (added > 0) summary.push(plural(added, 'new TODO'));
+  if (updated > 0) summary.push(`${plural(updated, 'TODO')} updated`);
+  if (removed > 0) summary.push(`${plural(removed, 'TODO')} removed`);
+  return summary;
+}
+
+// Reloads the store when the TODO files change outside of this window, e.g. after a git pull
+export class TodoFileWatcher implements vscode.Disposable {
+  private watchers: vscode.FileSystemWatcher[] = [];
+  private readonly disposables: vscode.Disposable[] = [];
+  // Folders to reload, and whether their team or roster file changed
+  private readonly pendingFolders = new Map<vscode.WorkspaceFolder, boolean>();
+  private reloadTimeout: NodeJS.Timeout | undefined;
+
+  constructor(private readonly store: TodoStore) {
+    this.watchFolders();
+    this.disposables.push(vscode.workspace.onDidChangeWorkspaceFolders(() => this.watchFolders()));
+  }
+
+  private watchFolders(): void {
+    this.watchers.forEach(watcher => watcher.dispose());
+    this.watchers = [];
+
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(folder, WATCHED_FILES));
+      const schedule = (uri: vscode.Uri) => this.scheduleReload(folder, [TEAM_FILE, ROSTER_FILE].includes(path.basename(uri.fsPath)));
+      watcher.onDidCreate(schedule);
+      watcher.onDidChange(schedule);
+      watcher.onDidDelete(schedule);
+      this.watchers.push(watcher);
+    }
+  }
+
+  private scheduleReload(folder: vscode.WorkspaceFolder, teamChanged: boolean): void {
+    this.pendingFolders.set(folder, teamChanged || this.pendingFolders.get(folder) || false);
+    if (this.reloadTimeout) {
+      clearTimeout(this.reloadTimeout);
+    }
+    this.reloadTimeout = setTimeout(() => this.reload(), RELOAD_DELAY);
+  }
+
+  private async reload(): Promise<void> {
+    const folders = Array.from(this.pendingFolders);
+    this.pendingFolders.clear();
+
+    // Our own writes are recognized by the store and not reloaded, they show up as no change here
+    const summary: string[] = [];
+    for (const [folder, teamChanged] of folders) {
+      const { before, after } = await this.store.reloadIfChanged(folder, teamChanged);
+      const user = this.store.getUser(folder.uri.fsPath);
+      if (before && user) {
+        summary.push(...summarizeRemoteChanges(before, after, user, this.store.getRoster(folder.uri.fsPath)));
+      }
+    }
+
+    const notify = vscode.workspace.getConfiguration('awesomeTodo').get<boolean>('notifyOnTeamChanges', true);
+    if (notify && summary.length > 0) {
+      const action = await vscode.window.showInformationMessage(`Remote TODOs changed: ${summary.join(', ')}.`, 'Show TODOs');
+      if (action === 'Show TODOs') {
+        vscode.commands.executeCommand('workbench.view.extension.awesomeTodo');
+      }
+    }
+  }
+
+  dispose(): void {
+    if (this.reloadTimeout) {
+      clearTimeout(this.reloadTimeout);
+    }
+    this.watchers.forEach(watcher => watcher.dispose());
+    this.disposables.forEach(disposable => disposable.dispose());
+  }
+}
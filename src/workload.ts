@@ -0,0 +1,56 @@
+// Open remote TODOs per team member, for leads to see who carries what
+import { getTodoStatus, isTodoOverdue, Todo, User } from './core';
+import { findRosterMember, getIdentityEmails, rosterMemberToUser, RosterMember } from './roster';
+
+export interface MemberWorkload {
+  member: User;
+  inTeam: boolean; // False for assignees missing from the team list
+  todos: Todo[]; // Open TODOs assigned to them, oldest first
+  overdue: number;
+  oldest?: Todo; // The open TODO created longest ago
+}
+
+function createdTime(todo: Todo): number {
+  const time = todo.createdAt ? Date.parse(todo.createdAt) : NaN;
+  return isNaN(time) ? Number.MAX_SAFE_INTEGER : time;
+}
+
+// Workload of every team member, also those without open TODOs, followed by assignees who are not in
+// the team. People are merged across their roster aliases. Busiest first, then by name.
+export function computeWorkload(todos: Todo[], team: User[], roster: RosterMember[] = [], now: Date = new Date()): MemberWorkload[] {
+  const workloads = new Map<string, MemberWorkload>();
+  const keyOf = (user: User) => getIdentityEmails(roster, user.email)[0];
+
+  team.forEach(member => workloads.set(keyOf(member), { member, inTeam: true, todos: [], overdue: 0 }));
+
+  const open = todos.filter(todo => todo.type === 'remote' && getTodoStatus(todo) !== 'done');
+  for (const todo of open) {
+    // A TODO counts once per person, even when assigned to several of their aliases
+    const keys = new Set((todo.assignees || []).map(keyOf));
+    keys.forEach(key => {
+      let workload = workloads.get(key);
+      if (!workload) {
+        const assignee = todo.assignees!.find(candidate => keyOf(candidate) === key)!;
+        const member = findRosterMember(roster, assignee.email);
+        workload = { member: member ? rosterMemberToUser(member) : assignee, inTeam: !!member, todos: [], overdue: 0 };
+        workloads.set(key, workload);
+      }
+      workload.todos.push(todo);
+      if (isTodoOverdue(todo, now)) {
+        workload.overdue++;
+      }
+    });
+  }
+
+  return Array.from(workloads.values())
+    .map(workload => {
+      const sorted = [...workload.todos].sort((a, b) => createdTime(a) - createdTime(b));
+      return { ...workload, todos: sorted, ...(sorted.length > 0 ? { oldest: sorted[0] } : {}) };
+    })
+    .sort((a, b) => Number(b.inTeam) - Number(a.inTeam) || b.todos.length - a.todos.length || a.member.name.localeCompare(b.member.name));
+}
+
+// Open remote TODOs nobody is assigned to
+export function findUnassignedTodos(todos: Todo[]): Todo[] {
+  return todos.filter(todo => todo.type === 'remote' && getTodoStatus(todo) !== 'done' && !todo.assignees?.length);
+}